@@ -23,6 +23,11 @@ declare module "botbuilder" {
       res: any,
       logic: (context: TurnContext) => Promise<void>
     ): Promise<void>;
+    continueConversationAsync(
+      botAppId: string,
+      reference: any,
+      logic: (context: TurnContext) => Promise<void>
+    ): Promise<void>;
   }
 }
 
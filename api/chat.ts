@@ -1,133 +1,38 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import app from '../src/app';
+import { getConfig } from '../src/config';
+import { createLogger } from '../src/logger';
+import { setProactiveSender } from '../src/notifier';
+import { runTeamsAppWithTurnContext } from '../src/pipeline';
+import { createSimulatorSender, getSimulatorHistory, handleSimulatorRequest } from '../src/simulator';
 
-// Initialize app on first import
-let appInitialized = false;
+const log = createLogger('api/chat');
 
-async function initializeApp() {
-  if (!appInitialized) {
-    appInitialized = true;
-  }
-  return app;
-}
+// Match notifications for simulated users are added to their conversation history
+setProactiveSender(createSimulatorSender());
 
+// Local multi-user simulator, see the /chat route in src/app.ts for the request format. Its requests aren't
+// authenticated, so it only answers with LOCAL_DEV=true (e.g. `vercel dev`) and doesn't exist when deployed.
 export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!getConfig().localDev) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  if (req.method === 'GET') {
+    const conversationId = String(req.query?.conversationId || '');
+    if (!conversationId) {
+      return res.status(400).json({ success: false, error: 'conversationId is required' });
+    }
+    return res.json({ success: true, conversationId, history: getSimulatorHistory(conversationId) });
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    const teamsApp = await initializeApp();
-    const bodyData = req.body || {};
-    const responseMessages: any[] = [];
-    
-    // Create a mock Bot Framework activity from the request
-    const activity = {
-      type: "message",
-      text: (bodyData?.text || bodyData?.message || "hi") as string,
-      id: `test-${Date.now()}`,
-      from: {
-        id: "test-user",
-        name: "Test User"
-      },
-      conversation: {
-        id: "test-conversation",
-        conversationType: "personal"
-      },
-      channelId: "msteams",
-      serviceUrl: "https://smba.trafficmanager.net/amer/",
-      timestamp: new Date()
-    };
-
-    // Create a mock context that captures responses
-    const mockContext: any = {
-      activity: activity,
-      send: async (response: any) => {
-        responseMessages.push(response);
-      }
-    };
-
-    // Trigger message handlers using the router
-    const router = (teamsApp as any).router;
-    let handlersCalled = false;
-    
-    if (router && router.routes) {
-      const messageRoute = router.routes.find((r: any) => r.name === "message");
-      if (messageRoute) {
-        const handlers = messageRoute.handlers || messageRoute._handlers || messageRoute.callbacks || [];
-        for (const handler of handlers) {
-          try {
-            await handler(mockContext);
-            handlersCalled = true;
-          } catch (e: any) {
-            console.error("Handler error:", e.message);
-          }
-        }
-      }
-    }
-    
-    // Fallback: manual bot logic for testing
-    if (!handlersCalled) {
-      const welcomeCard = require("../src/adaptiveCards/welcomeCard.json");
-      if (bodyData.value?.type === "start") {
-        const question1Card = require("../src/adaptiveCards/question1.json");
-        responseMessages.push({
-          type: "message",
-          attachments: [{
-            contentType: "application/vnd.microsoft.card.adaptive",
-            content: question1Card
-          }]
-        });
-      } else if (bodyData.value?.type === "answer") {
-        const qId = bodyData.value.questionId;
-        if (qId === 1) {
-          const question2Card = require("../src/adaptiveCards/question2.json");
-          responseMessages.push({
-            type: "message",
-            attachments: [{
-              contentType: "application/vnd.microsoft.card.adaptive",
-              content: question2Card
-            }]
-          });
-        } else if (qId === 2) {
-          const question3Card = require("../src/adaptiveCards/question3.json");
-          responseMessages.push({
-            type: "message",
-            attachments: [{
-              contentType: "application/vnd.microsoft.card.adaptive",
-              content: question3Card
-            }]
-          });
-        } else if (qId === 3) {
-          const finalCard = require("../src/adaptiveCards/finalMatchCard.json");
-          responseMessages.push({
-            type: "message",
-            attachments: [{
-              contentType: "application/vnd.microsoft.card.adaptive",
-              content: finalCard
-            }]
-          });
-        }
-      } else if (!bodyData.value && bodyData.text) {
-        responseMessages.push({
-          type: "message",
-          attachments: [{
-            contentType: "application/vnd.microsoft.card.adaptive",
-            content: welcomeCard
-          }]
-        });
-      }
-    }
-
-    await new Promise(resolve => setTimeout(resolve, 200));
-    res.json({
-      success: true,
-      messages: responseMessages,
-      received: activity.text
-    });
+    res.json(await handleSimulatorRequest(runTeamsAppWithTurnContext, req.body || {}));
   } catch (error: any) {
-    console.error('Error processing activity:', error);
-    res.status(500).json({ error: error.message });
+    log.error('Simulator request failed', { error });
+    res.status(500).json({ success: false, error: error.message });
   }
 }
-
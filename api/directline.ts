@@ -0,0 +1,29 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createDirectLineSender, handleDirectLineRequest } from '../src/directLine';
+import { createLogger } from '../src/logger';
+import { setProactiveSender } from '../src/notifier';
+import { runTeamsAppWithTurnContext } from '../src/pipeline';
+
+const log = createLogger('api/directline');
+
+// Match notifications for Direct Line users are appended to their conversation
+setProactiveSender(createDirectLineSender());
+
+// Direct Line v3-style channel, see src/directLine.ts. Conversations live in memory, so this
+// only behaves well while a single instance serves them (e.g. `vercel dev`).
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const path = (req.url || '').split('?')[0].replace(/^\/v3\/directline/, '');
+    const response = await handleDirectLineRequest(runTeamsAppWithTurnContext, {
+      method: req.method || 'GET',
+      path,
+      headers: req.headers,
+      query: req.query || {},
+      body: req.body,
+    });
+    res.status(response.status).json(response.body);
+  } catch (error: any) {
+    log.error('Direct Line request failed', { error });
+    res.status(500).json({ error: { code: 'ServiceError', message: error.message } });
+  }
+}
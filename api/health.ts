@@ -1,6 +1,16 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createLoadFailureReport, getHealthStatus, HealthReport } from '../src/health';
 
-export default function handler(req: VercelRequest, res: VercelResponse) {
-  res.status(200).send("Bot is running!");
+// Readiness checks, version, uptime and state counts (503 until ready). api/messages.ts needs
+// Bot Framework credentials here, so missing ones fail the config check.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  let report: HealthReport;
+  try {
+    // Loading the bot reads the configuration, so it happens here: invalid settings become a 503 report, not a crash
+    const { getReadiness }: typeof import('../src/pipeline') = require('../src/pipeline');
+    report = await getReadiness({ requireCredentials: true });
+  } catch (err: any) {
+    report = createLoadFailureReport(err);
+  }
+  res.status(getHealthStatus(report)).json(report);
 }
-
@@ -1,55 +1,53 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { CloudAdapter } from 'botbuilder';
-import app, { runTeamsAppWithTurnContext } from '../src/app';
+import { applyBotFrameworkEnv, loadConfig } from '../src/config';
+import { resolveLanguage, translate } from '../src/i18n';
+import { createCorrelationId, createLogger, withLogContext } from '../src/logger';
+import { createCloudAdapterSender, setProactiveSender } from '../src/notifier';
+import { runTeamsAppWithTurnContext } from '../src/pipeline';
 
-// Initialize app on first import
-let appInitialized = false;
+const log = createLogger('api/messages');
 
-async function initializeApp() {
-  if (!appInitialized) {
-    console.log('Initializing app, router exists:', !!(app as any).router);
-    appInitialized = true;
-  }
-  return app;
-}
-
-// Map existing env vars to Bot Framework standard names for the JS SDK.
-const appId = process.env.CLIENT_ID ?? '';
-const appPassword = process.env.CLIENT_SECRET ?? '';
-const tenantId = process.env.MS_TENANT_ID ?? '';
-
-process.env.MicrosoftAppId = appId;
-process.env.MicrosoftAppPassword = appPassword;
-process.env.MicrosoftAppType = "SingleTenant";
-process.env.MicrosoftAppTenantId = tenantId;
+// Validate the settings (any supported auth type and env name) and hand them to the JS SDK
+// under the Bot Framework standard names. Fails fast, listing every missing or contradictory setting.
+const config = loadConfig(process.env, { requireCredentials: true });
+applyBotFrameworkEnv(config.auth);
 
 // Construct CloudAdapter with env-based configuration (no arguments).
 // Type definitions expect a BotFrameworkAuthentication, but the JS SDK supports env-based construction.
 // @ts-expect-error CloudAdapter can read credentials from environment variables when no args are provided.
 const adapter = new CloudAdapter();
 
+// Match notifications reach the partner through this adapter, even outside their own turn
+setProactiveSender(createCloudAdapterSender(adapter, config.auth.clientId));
+
 // Global error handler
 adapter.onTurnError = async (context, error) => {
-  console.error('[bot] onTurnError', error);
+  log.error('Turn failed', { error });
   try {
-    await context.sendActivity('Oops, something went wrong.');
+    await context.sendActivity(translate(resolveLanguage(context.activity?.locale), 'error.generic'));
   } catch (sendErr) {
-    console.error('[bot] Failed to send error message', sendErr);
+    log.error('Failed to send error message', { error: sendErr });
   }
 };
 
+// Every log line of a request carries its correlation id: the caller's x-correlation-id, or a new one
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  console.log(`[${new Date().toISOString()}] ${req.method} /api/messages`);
+  const header = req.headers['x-correlation-id'];
+  const correlationId = (Array.isArray(header) ? header[0] : header) || createCorrelationId();
+  res.setHeader('x-correlation-id', correlationId);
+  return withLogContext({ correlationId }, () => handleRequest(req, res));
+}
+
+async function handleRequest(req: VercelRequest, res: VercelResponse) {
+  log.info('Request received', { method: req.method, path: '/api/messages' });
 
   if (req.method !== 'POST') {
-    console.log('Method not allowed:', req.method);
+    log.warn('Method not allowed', { method: req.method });
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  await initializeApp();
-
   try {
-    console.log('[adapter] processActivity start');
 
     const activity = req.body;
     const authHeader =
@@ -84,14 +82,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       send: () => {},
     };
 
-    await (adapter as any).processActivity(webRequest as any, webResponse as any, async (turnContext: any) => {
+    const invokeResponse = await (adapter as any).processActivity(webRequest as any, webResponse as any, async (turnContext: any) => {
       await runTeamsAppWithTurnContext(turnContext);
     });
 
-    console.log('[adapter] processActivity end');
+    // Invoke activities (card actions) expect the bot's invoke response as the HTTP body
+    if (invokeResponse) {
+      return res.status(invokeResponse.status || 200).json(invokeResponse.body ?? {});
+    }
     res.status(200).json({ ok: true });
   } catch (err: any) {
-    console.error('[adapter] processActivity error', err);
+    log.error('Request failed', { error: err });
     if (!res.headersSent) {
       res.status(500).json({ error: 'Bot processing error', message: err?.message });
     }
@@ -1,34 +1,13 @@
-import { stripMentionsText, TokenCredentials } from "@microsoft/teams.api";
+import { stripMentionsText } from "@microsoft/teams.api";
 import { App } from "@microsoft/teams.apps";
 import { LocalStorage } from "@microsoft/teams.common";
-import config from "./config";
-import { ManagedIdentityCredential } from "@azure/identity";
+import { createTeamsAppCredentials, getConfig } from "./src/config";
 
 // Create storage for conversation history
 const storage = new LocalStorage();
 
-const createTokenFactory = () => {
-  return async (scope: string | string[], tenantId?: string): Promise<string> => {
-    const managedIdentityCredential = new ManagedIdentityCredential({
-      clientId: process.env.CLIENT_ID,
-    });
-    const scopes = Array.isArray(scope) ? scope : [scope];
-    const tokenResponse = await managedIdentityCredential.getToken(scopes, {
-      tenantId: tenantId,
-    });
-
-    return tokenResponse.token;
-  };
-};
-
-// Configure authentication using TokenCredentials
-const tokenCredentials: TokenCredentials = {
-  clientId: process.env.CLIENT_ID || "",
-  token: createTokenFactory(),
-};
-
-const credentialOptions =
-  config.MicrosoftAppType === "UserAssignedMsi" ? { ...tokenCredentials } : undefined;
+// Credentials for the configured auth type (client secret or user-assigned managed identity)
+const credentialOptions = createTeamsAppCredentials(getConfig().auth);
 
 // Create the app with storage
 const app = new App({
@@ -66,25 +45,7 @@ app.on("message", async (context) => {
     return;
   }
 
-  if (text === "/diag") {
-    await context.send(JSON.stringify(activity));
-    return;
-  }
-
-  if (text === "/state") {
-    const state = getConversationState(activity.conversation.id);
-    await context.send(JSON.stringify(state));
-    return;
-  }
-
-  if (text === "/runtime") {
-    const runtime = {
-      nodeversion: process.version,
-      sdkversion: "2.0.0", // Microsoft Teams SDK
-    };
-    await context.send(JSON.stringify(runtime));
-    return;
-  }
+  // /diag, /state and /runtime moved to the Hoogah bot as admin-only commands (src/diagnostics.ts)
 
   // Default echo behavior
   const state = getConversationState(activity.conversation.id);
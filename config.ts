@@ -1,8 +1,13 @@
+import { getConfig } from "./src/config";
+
+// Bot Framework names of the validated settings in src/config.ts
+const { auth } = getConfig();
+
 const config = {
-  MicrosoftAppId: process.env.CLIENT_ID,
-  MicrosoftAppType: process.env.BOT_TYPE,
-  MicrosoftAppTenantId: process.env.TENANT_ID,
-  MicrosoftAppPassword: process.env.CLIENT_PASSWORD,
+  MicrosoftAppId: auth.clientId,
+  MicrosoftAppType: auth.type,
+  MicrosoftAppTenantId: auth.tenantId,
+  MicrosoftAppPassword: auth.clientSecret,
 };
 
 export default config;
@@ -1,9 +1,18 @@
 const express = require("express");
 const { CloudAdapter } = require("botbuilder");
-const { runTeamsAppWithTurnContext } = require("./lib/src/app");
+const { applyBotFrameworkEnv, loadConfig } = require("./lib/src/config");
+const { getHealthStatus } = require("./lib/src/health");
+const { resolveLanguage, translate } = require("./lib/src/i18n");
+const { createLogger } = require("./lib/src/logger");
+const { renderMetrics } = require("./lib/src/metrics");
+const { getReadiness, runTeamsAppWithTurnContext, scheduler } = require("./lib/src/pipeline");
+const { createCloudAdapterSender, setProactiveSender } = require("./lib/src/notifier");
 
-// Ensure Bot Framework adapter env defaults
-process.env.MicrosoftAppType = process.env.MicrosoftAppType || "SingleTenant";
+// Validate the settings and expose them under the MicrosoftApp* names the adapter reads
+const config = loadConfig(process.env, { requireCredentials: true });
+applyBotFrameworkEnv(config.auth);
+
+const log = createLogger("index");
 
 const app = express();
 app.use(express.json());
@@ -11,12 +20,15 @@ app.use(express.json());
 // Adapter reads credentials from MicrosoftApp* env vars
 const adapter = new CloudAdapter();
 
+// Match notifications reach the partner through this adapter, even outside their own turn
+setProactiveSender(createCloudAdapterSender(adapter, config.auth.clientId));
+
 adapter.onTurnError = async (context, error) => {
-  console.error("[bot] onTurnError", error);
+  log.error("Turn failed", { error });
   try {
-    await context.sendActivity("Oops, something went wrong.");
+    await context.sendActivity(translate(resolveLanguage(context.activity?.locale), "error.generic"));
   } catch (sendErr) {
-    console.error("[bot] Failed to send error message", sendErr);
+    log.error("Failed to send error message", { error: sendErr });
   }
 };
 
@@ -26,8 +38,21 @@ app.post("/api/messages", (req, res) => {
   });
 });
 
-const port = process.env.PORT || 3000;
+// Readiness checks, version, uptime and state counts (503 until ready)
+app.get("/", async (req, res) => {
+  const report = await getReadiness({ requireCredentials: true });
+  res.status(getHealthStatus(report)).json(report);
+});
+
+// Funnel and activity counters in Prometheus text format
+app.get("/api/metrics", (req, res) => {
+  res.type("text/plain; version=0.0.4").send(renderMetrics());
+});
+
+const port = config.port;
 app.listen(port, () => {
+  // Scheduled rounds run in this process
+  scheduler.start();
   console.log(`Server listening on port ${port}`);
 });
 
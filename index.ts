@@ -1,7 +1,8 @@
 import app from "./app";
+import { getConfig } from "./src/config";
 
 // Start the application
 (async () => {
   await app.start();
-  console.log(`\nBot started, app listening to`, process.env.PORT || process.env.port || 3978);
+  console.log(`\nBot started, app listening to`, getConfig().port);
 })();
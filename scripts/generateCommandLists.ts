@@ -0,0 +1,53 @@
+// Regenerates the bot's commandLists in appPackage/manifest.json from the command registry in src/bot.ts,
+// so the commands Teams suggests are the ones the bot implements. Only commands everyone may run are
+// listed; organizer and admin commands show up in their /help instead. Personal chats and team channels or
+// group chats get separate lists, since some commands only work in one of them.
+//
+//   npm run manifest:commands
+import fs from "node:fs";
+import path from "node:path";
+
+const { commands }: typeof import("../src/bot") = require("../src/bot");
+
+const MANIFEST_FILE = path.join(__dirname, "..", "appPackage", "manifest.json");
+
+// Limits of the Teams app manifest schema
+const MAX_COMMANDS = 10;
+const MAX_TITLE_LENGTH = 32;
+const MAX_DESCRIPTION_LENGTH = 128;
+
+const main = () => {
+  const listed = commands.list().filter((command) => command.permission === "everyone");
+  const problems = [
+    ...(listed.length > MAX_COMMANDS ? [`${listed.length} commands, but a command list holds at most ${MAX_COMMANDS}`] : []),
+    ...listed
+      .filter((command) => command.name.length > MAX_TITLE_LENGTH)
+      .map((command) => `${command.name}: the name is longer than ${MAX_TITLE_LENGTH} characters`),
+    ...listed
+      .filter((command) => command.description.length > MAX_DESCRIPTION_LENGTH)
+      .map((command) => `${command.name}: the description is longer than ${MAX_DESCRIPTION_LENGTH} characters`),
+  ];
+  if (problems.length > 0) {
+    throw new Error(`Can't generate the manifest command list:\n  - ${problems.join("\n  - ")}`);
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(MANIFEST_FILE, "utf8"));
+  for (const bot of manifest.bots || []) {
+    const scopes: string[] = bot.scopes || [];
+    bot.commandLists = [
+      { scopes: scopes.filter((scope) => scope === "personal"), scope: "personal" },
+      { scopes: scopes.filter((scope) => scope !== "personal"), scope: "group" },
+    ]
+      .map((list) => ({
+        scopes: list.scopes,
+        commands: listed
+          .filter((command) => !command.scope || command.scope === list.scope)
+          .map((command) => ({ title: command.name, description: command.description })),
+      }))
+      .filter((list) => list.scopes.length > 0 && list.commands.length > 0);
+  }
+  fs.writeFileSync(MANIFEST_FILE, `${JSON.stringify(manifest, null, 4)}\n`);
+  console.log(`Wrote ${listed.length} commands to ${path.relative(process.cwd(), MANIFEST_FILE)}`);
+};
+
+main();
@@ -1,24 +1,34 @@
 import { App } from "@microsoft/teams.apps";
-import { LocalStorage } from "@microsoft/teams.common";
 import { ConsoleLogger } from "@microsoft/teams.common/logging";
-import { setupBot } from "./bot";
-import { TurnContext } from "botbuilder";
-
-// Create storage for conversation history
-const storage = new LocalStorage();
+import express from "express";
+import { createTeamsAppCredentials, getConfig } from "./config";
+import { createDirectLineSender, handleDirectLineRequest } from "./directLine";
+import { getHealthStatus } from "./health";
+import { createLogger } from "./logger";
+import { renderMetrics } from "./metrics";
+import { createPersonalReference, setProactiveSender } from "./notifier";
+import { getReadiness, processActivity, runTeamsAppWithTurnContext, scheduler, storage } from "./pipeline";
+import { createSimulatorSender, getSimulatorHistory, handleSimulatorRequest } from "./simulator";
 
 // Create logger
 const logger = new ConsoleLogger("HoogahBot");
+const log = createLogger("app");
+
+// Load the configuration up front, so missing or contradictory settings stop the app before it starts
+const config = getConfig();
 
-// Create the Teams app with storage and logger.
-// Credentials are provided via env vars and handled by the Bot Framework adapter in /api/messages.
+// Create the Teams app with storage, logger and the credentials of the configured auth type
 const app = new App({
+  ...createTeamsAppCredentials(config.auth),
   storage,
   logger,
 });
 
-// Setup bot logic
-setupBot(app);
+// The http plugin's /api/messages hands every activity to the shared pipeline (src/pipeline.ts);
+// whatever an invoke handler returns becomes the invoke response
+app.on("activity", async (context) => {
+  return (await processActivity(context.activity, (activity) => context.send(activity))) as any;
+});
 
 // Ensure http plugin has logger (workaround for SDK issue)
 if (app.http && !(app.http as any).logger) {
@@ -33,212 +43,103 @@ if (app.http && !(app.http as any).$onError) {
   };
 }
 
-// Note: The SDK's http plugin already adds express.json() middleware for /api* routes
-
-// Simple test endpoint for local testing (bypasses Bot Framework auth)
+// Local multi-user simulator (bypasses Bot Framework auth), only with LOCAL_DEV=true.
+// POST /chat with { userId, userName, conversationId, type: "message" | "invoke", text, value }
+// runs one activity through the bot; GET /chat?conversationId=... returns that conversation's history,
+// including match notifications sent to it later.
 // Register routes before server starts
-app.http.post("/chat", async (req: any, res: any) => {
-  try {
-    const bodyData = req.body || {};
-    const responseMessages: any[] = [];
-    
-    // Create a mock Bot Framework activity from the request
-    const activity = {
-      type: "message",
-      text: (bodyData?.text || bodyData?.message || "hi") as string,
-      id: `test-${Date.now()}`,
-      from: {
-        id: "test-user",
-        name: "Test User"
-      },
-      conversation: {
-        id: "test-conversation",
-        conversationType: "personal"
-      },
-      channelId: "msteams",
-      serviceUrl: "https://smba.trafficmanager.net/amer/",
-      timestamp: new Date()
-    };
-
-    // Create a mock context that captures responses
-    const mockContext: any = {
-      activity: activity,
-      send: async (response: any) => {
-        responseMessages.push(response);
-      }
-    };
-
-    // Trigger message handlers using the router
-    const router = (app as any).router;
-    let handlersCalled = false;
-    
-    if (router && router.routes) {
-      const messageRoute = router.routes.find((r: any) => r.name === "message");
-      if (messageRoute) {
-        const handlers = messageRoute.handlers || messageRoute._handlers || messageRoute.callbacks || [];
-        for (const handler of handlers) {
-          try {
-            await handler(mockContext);
-            handlersCalled = true;
-          } catch (e: any) {
-            console.error("Handler error:", e.message);
-          }
-        }
-      }
+if (config.localDev) {
+  // The SDK's http plugin only adds express.json() middleware for /api* routes
+  app.http.use("/chat", express.json());
+
+  app.http.post("/chat", async (req: any, res: any) => {
+    try {
+      res.json(await handleSimulatorRequest(runTeamsAppWithTurnContext, req.body || {}));
+    } catch (error: any) {
+      log.error("Simulator request failed", { error });
+      res.status(500).json({ success: false, error: error.message });
     }
-    
-    // Fallback: manual bot logic for testing
-    if (!handlersCalled) {
-      const welcomeCard = require("./adaptiveCards/welcomeCard.json");
-      if (bodyData.value?.type === "start") {
-        const question1Card = require("./adaptiveCards/question1.json");
-        responseMessages.push({
-          type: "message",
-          attachments: [{
-            contentType: "application/vnd.microsoft.card.adaptive",
-            content: question1Card
-          }]
-        });
-      } else if (bodyData.value?.type === "answer") {
-        const qId = bodyData.value.questionId;
-        if (qId === 1) {
-          const question2Card = require("./adaptiveCards/question2.json");
-          responseMessages.push({
-            type: "message",
-            attachments: [{
-              contentType: "application/vnd.microsoft.card.adaptive",
-              content: question2Card
-            }]
-          });
-        } else if (qId === 2) {
-          const question3Card = require("./adaptiveCards/question3.json");
-          responseMessages.push({
-            type: "message",
-            attachments: [{
-              contentType: "application/vnd.microsoft.card.adaptive",
-              content: question3Card
-            }]
-          });
-        } else if (qId === 3) {
-          const finalCard = require("./adaptiveCards/finalMatchCard.json");
-          responseMessages.push({
-            type: "message",
-            attachments: [{
-              contentType: "application/vnd.microsoft.card.adaptive",
-              content: finalCard
-            }]
-          });
-        }
-      } else if (!bodyData.value && bodyData.text) {
-        responseMessages.push({
-          type: "message",
-          attachments: [{
-            contentType: "application/vnd.microsoft.card.adaptive",
-            content: welcomeCard
-          }]
-        });
-      }
+  });
+
+  app.http.get("/chat", (req: any, res: any) => {
+    const conversationId = String(req.query?.conversationId || "");
+    if (!conversationId) {
+      res.status(400).json({ success: false, error: "conversationId is required" });
+      return;
     }
+    res.json({ success: true, conversationId, history: getSimulatorHistory(conversationId) });
+  });
+}
 
-    await new Promise(resolve => setTimeout(resolve, 200));
-    res.json({
-      success: true,
-      messages: responseMessages,
-      received: activity.text
+// Local Direct Line v3-style channel for Web Chat clients and scripts (see src/directLine.ts)
+app.http.use("/v3/directline", express.json(), async (req: any, res: any) => {
+  try {
+    const response = await handleDirectLineRequest(runTeamsAppWithTurnContext, {
+      method: req.method,
+      path: req.path,
+      headers: req.headers,
+      query: req.query,
+      body: req.body,
     });
+    res.status(response.status).json(response.body);
   } catch (error: any) {
-    console.error('Error processing activity:', error);
+    log.error("Direct Line request failed", { error });
+    res.status(500).json({ error: { code: "ServiceError", message: error.message } });
   }
 });
 
-// Health check endpoint
-app.http.get("/", (req, res) => {
-  res.status(200).send("Bot is running!");
+// Funnel and activity counters in Prometheus text format (see src/metrics.ts)
+app.http.get("/api/metrics", (req: any, res: any) => {
+  res.type("text/plain; version=0.0.4").send(renderMetrics());
 });
 
-// Run the Teams app router using a Bot Framework TurnContext.
-// This is invoked from the Vercel /api/messages handler via CloudAdapter.
-export async function runTeamsAppWithTurnContext(turnContext: TurnContext): Promise<void> {
-  const activity = turnContext.activity;
-  const router = (app as any).router;
-
-  console.log('[router] Activity type:', activity?.type);
-  console.log('[router] Channel:', activity?.channelId);
-  console.log('[router] Text:', activity?.text);
-
-  if (!router) {
-    console.error('[router] Router not initialized on app');
-    return;
-  }
-
-  const context: any = {
-    activity,
-    // Align with previous context.send API used by existing handlers
-    send: async (response: any) => {
-      const responseActivity = {
-        type: "message",
-        ...response,
-      };
-      console.log('📤 context.send() via adapter!');
-      console.log('Response type:', responseActivity.type);
-      console.log('Response attachments:', responseActivity.attachments?.length || 0);
-      await turnContext.sendActivity(responseActivity);
-    },
-  };
-
-  let handlerCalled = false;
-
-  // Primary path: router.select
-  if (typeof router.select === 'function') {
-    const routes = router.select(activity) || [];
-    console.log('[router] Routes selected:', routes.length);
-    for (const route of routes) {
-      try {
-        await route(context);
-        handlerCalled = true;
-      } catch (err: any) {
-        console.error('[router] Route handler error:', err?.message || err);
-      }
-    }
-  }
-
-  // Fallback path: router.routes direct handlers
-  if (!handlerCalled && router.routes) {
-    const messageRoute = router.routes.find((r: any) => r.name === "message");
-    if (messageRoute) {
-      const handlers = messageRoute.handlers || messageRoute._handlers || messageRoute.callbacks || [];
-      console.log('[router] Fallback handlers:', handlers.length);
-      for (const handler of handlers) {
-        try {
-          await handler(context);
-          handlerCalled = true;
-        } catch (err: any) {
-          console.error('[router] Handler error:', err?.message || err);
-        }
-      }
-    } else {
-      console.warn('[router] Message route not found');
-    }
-  }
-
-  if (!handlerCalled) {
-    console.warn('⚠️ No handlers were called for this activity');
-  } else {
-    console.log('[router] Handler executed successfully');
-  }
-}
+// Health check endpoint: readiness checks, version, uptime and state counts (503 until ready)
+app.http.get("/", async (req: any, res: any) => {
+  const report = await getReadiness();
+  res.status(getHealthStatus(report)).json(report);
+});
 
 // Serve static files from public folder (must be after /api/messages to avoid conflicts)
 app.http.static("/", "./public");
 
 // HTTP server setup
 const start = async () => {
-  const port = process.env.PORT || process.env.port || 3978;
+  const port = config.port;
   // The http plugin handles /api/messages automatically
   // Start the server using the http plugin's onStart method
-  await app.http.onStart({ port: Number(port) });
+  await app.http.onStart({ port });
+
+  // When the Teams http plugin hosts the bot, proactive messages go out through it as well;
+  // those to simulated /chat and local Direct Line conversations are added to them instead
+  setProactiveSender(
+    createSimulatorSender(
+      createDirectLineSender({
+        send: async (reference, activity) => {
+          await app.http.send(activity, reference as any);
+        },
+        createPersonalConversation: async (reference, user) => {
+          const tenantId = reference.conversation.tenantId;
+          const conversation = await app.api.conversations.create({
+            isGroup: false,
+            bot: reference.bot,
+            members: [user],
+            tenantId,
+            channelData: { tenant: { id: tenantId } },
+          });
+          return createPersonalReference(reference, user, conversation.id);
+        },
+        listMembers: (reference) => app.api.conversations.members(reference.conversation.id).get(),
+      })
+    )
+  );
+  // Scheduled rounds run in this process
+  scheduler.start();
   console.log(`\nBot started, app listening on port ${port}`);
-  console.log(`Test endpoint available at: POST http://localhost:${port}/chat`);
+  if (config.localDev) {
+    console.log(`Test endpoint available at: POST http://localhost:${port}/chat`);
+  }
+  console.log(`Direct Line endpoint available at: http://localhost:${port}/v3/directline`);
+  console.log(`Metrics available at: GET http://localhost:${port}/api/metrics`);
 };
 
 // Export app with start method
@@ -1,181 +1,697 @@
 import { stripMentionsText } from "@microsoft/teams.api";
-import { App } from "@microsoft/teams.apps";
-import { Attachment } from "@microsoft/teams.api";
-import welcomeCard from "./adaptiveCards/welcomeCard.json";
-import question1Card from "./adaptiveCards/question1.json";
-import question2Card from "./adaptiveCards/question2.json";
-import question3Card from "./adaptiveCards/question3.json";
-import finalMatchCard from "./adaptiveCards/finalMatchCard.json";
-
-// In-memory state storage per conversation
-interface UserState {
-  q1?: string;
-  q2?: string;
-  q3?: string;
-  hasStarted?: boolean;
-}
-
-const userState: Record<string, UserState> = {};
-
-// Helper function to get or initialize user state
-const getUserState = (conversationId: string): UserState => {
-  if (!userState[conversationId]) {
-    userState[conversationId] = {};
-  }
-  return userState[conversationId];
+import { CardSession, JoinAction, parseCardAction } from "./cardActions";
+import {
+  buildAnsweredCard,
+  buildAnswersSummaryCard,
+  buildExpiredCard,
+  buildHelpCard,
+  buildJoinedCard,
+  buildQuestionCard,
+  buildWaitingForMatchCard,
+  buildWelcomeCard,
+  createCardAttachment,
+  createCardInvokeResponse,
+  createMessageInvokeResponse,
+  forUser,
+  withNotice,
+} from "./cards";
+import { CommandDefinition, CommandPermission, createCommandRegistry } from "./commands";
+import { DIAGNOSTICS_COMMANDS } from "./diagnostics";
+import { ActivityHandler, Dispatcher } from "./dispatcher";
+import { getConfig } from "./config";
+import { ensureDefaultEvent, findEventByCode, getEvent, HoogahEvent, listPublicEvents } from "./events";
+import { FEEDBACK_COMMANDS, handleFeedbackAction } from "./feedback";
+import {
+  getLanguage,
+  getUserLanguage,
+  isLanguage,
+  Language,
+  LANGUAGE_NAMES,
+  t,
+  withLanguage,
+} from "./i18n";
+import { getAddedMembers, isBotAdded, isBotRemoved, isPersonalConversation, purgeConversation } from "./lifecycle";
+import { createLogger } from "./logger";
+import { countFunnelStep, defineFunnelSteps } from "./metrics";
+import { createMatchCard, notifyMatch } from "./notifications";
+import { getConversationReference, openPersonalConversation, sendProactive } from "./notifier";
+import { ORGANIZER_COMMANDS } from "./organizer";
+import { matchParticipant } from "./pairing";
+import {
+  getDefaultQuestionnaire,
+  getEventQuestionnaire,
+  getNextQuestion,
+  isComplete,
+  matchOption,
+  QuestionnaireDefinition,
+} from "./questionnaire";
+import { ROUND_COMMANDS } from "./rounds";
+import { deleteSchedule, SCHEDULE_COMMANDS } from "./scheduler";
+import {
+  deleteParticipant,
+  forgetActivityProcessed,
+  getParticipant,
+  getUserState,
+  markActivityProcessed,
+  Participant,
+  saveParticipant,
+  saveUserState,
+  setIdentity,
+  UserState,
+} from "./state";
+import { StateStore } from "./storage";
+
+const log = createLogger("bot");
+
+// Funnel reported at /api/metrics: welcome shown, joined an event, each question answered, paired. Loading the
+// default questionnaire here also reports a broken QUESTIONNAIRE_FILE at startup.
+defineFunnelSteps(["welcome_shown", "started", ...getDefaultQuestionnaire().questions.map((q) => q.id), "matched"]);
+
+// Helper function to remember who is behind a conversation from its latest activity: the sender, where to reach
+// them and their language
+const updateIdentity = (state: UserState, activity: any) => {
+  const from = activity.from;
+  if (!from) {
+    return;
+  }
+  setIdentity(state, from);
+  state.reference = getConversationReference(activity) || state.reference;
+  state.locale = activity.locale || state.locale;
+};
+
+// Helper function to store an answer; returns false for question ids and options the questionnaire doesn't define
+const recordAnswer = (
+  questionnaire: QuestionnaireDefinition,
+  participant: Participant,
+  questionId: string,
+  answer: string
+): boolean => {
+  const question = questionnaire.questions.find((q) => q.id === questionId);
+  if (!question || !question.options.includes(answer)) {
+    return false;
+  }
+  participant.answers[question.id] = answer;
+  return true;
+};
+
+// Helper function to load a participant, starting a new questionnaire session the first time
+const loadParticipant = async (store: StateStore, eventId: string, conversationId: string) => {
+  const participant = await getParticipant(store, eventId, conversationId);
+  if (!participant.sessionId) {
+    participant.sessionId = `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    await saveParticipant(store, participant);
+  }
+  return participant;
 };
 
-// Helper function to create adaptive card attachment
-const createCardAttachment = (card: any): Attachment => {
-  return {
-    contentType: "application/vnd.microsoft.card.adaptive",
-    content: card,
+const getCardSession = (questionnaire: QuestionnaireDefinition, participant: Participant): CardSession => ({
+  sessionId: participant.sessionId as string,
+  questionnaireId: questionnaire.id,
+});
+
+// Helper function to build the welcome card listing the open events, greeting the user by name
+const createWelcomeCard = async (store: StateStore, state: UserState) => {
+  await ensureDefaultEvent(store);
+  return buildWelcomeCard(await listPublicEvents(store), state.name);
+};
+
+// Helper function to build the answers summary, which can be confirmed once every question is answered
+const createSummaryCard = (questionnaire: QuestionnaireDefinition, participant: Participant) => {
+  return buildAnswersSummaryCard(
+    questionnaire,
+    participant.answers,
+    getCardSession(questionnaire, participant),
+    isComplete(questionnaire, participant.answers) && !participant.confirmedAt,
+    !!participant.confirmedAt
+  );
+};
+
+// Helper function to build the card for where the participant is now: next question, summary, match or waiting
+const createProgressCard = async (store: StateStore, participant: Participant) => {
+  const event = await getEvent(store, participant.eventId);
+  const questionnaire = getEventQuestionnaire(event);
+  const question = getNextQuestion(questionnaire, participant.answers);
+  if (question) {
+    const position = questionnaire.questions.indexOf(question) + 1;
+    return buildQuestionCard(question, position, getCardSession(questionnaire, participant));
+  }
+
+  // All questions answered, let the user review them before they enter matching
+  if (!participant.confirmedAt && !participant.matchId) {
+    return createSummaryCard(questionnaire, participant);
+  }
+
+  // Round participants are paired together when the organizer closes the round
+  if (event?.round && !participant.matchId) {
+    return buildWaitingForMatchCard(event);
+  }
+
+  // Answers confirmed, pair with a real participant or ask the user to wait
+  const wasMatched = !!participant.matchId;
+  const match = await matchParticipant(store, questionnaire, participant);
+  if (match && !wasMatched) {
+    // The partner may not be talking to the bot right now, so tell them proactively
+    await notifyMatch(store, questionnaire, match, participant.conversationId);
+  }
+  return match ? createMatchCard(store, questionnaire, participant.conversationId, match) : buildWaitingForMatchCard();
+};
+
+// Helper function to build the card for wherever the user is, including before joining an event
+const createCurrentCard = async (store: StateStore, conversationId: string, state: UserState) => {
+  const event = state.eventId ? await getEvent(store, state.eventId) : undefined;
+  if (!event) {
+    return createWelcomeCard(store, state);
+  }
+  return createProgressCard(store, await loadParticipant(store, event.id, conversationId));
+};
+
+// Helper function to reopen the answers summary (/myanswers) until the user is paired
+const createMyAnswersCard = async (store: StateStore, conversationId: string, state: UserState) => {
+  const event = state.eventId ? await getEvent(store, state.eventId) : undefined;
+  if (!event) {
+    return withNotice(await createWelcomeCard(store, state), t("notice.notJoined"));
+  }
+  const participant = await loadParticipant(store, event.id, conversationId);
+  if (participant.matchId) {
+    return withNotice(await createProgressCard(store, participant), t("notice.alreadyPaired"));
+  }
+  return createSummaryCard(getEventQuestionnaire(event), participant);
+};
+
+// Helper function to build a question card that changes an earlier answer
+const createEditCard = (questionnaire: QuestionnaireDefinition, participant: Participant, questionId: string) => {
+  const question = questionnaire.questions.find((q) => q.id === questionId);
+  if (!question) {
+    return undefined;
+  }
+  const position = questionnaire.questions.indexOf(question) + 1;
+  const session = getCardSession(questionnaire, participant);
+  return buildQuestionCard(question, position, session, participant.answers[question.id]);
+};
+
+// Helper function to send a card as a new message
+const sendCard = async (context: any, card: any) => {
+  await context.send({
+    type: "message",
+    attachments: [createCardAttachment(forUser(card, context.activity.from?.id))],
+  });
+};
+
+// Helper function to find the event a join action refers to, by picked event id or typed join code
+const resolveJoinTarget = async (store: StateStore, action: JoinAction): Promise<HoogahEvent | undefined> => {
+  if (action.eventId) {
+    return getEvent(store, action.eventId);
+  }
+  if (action.joinCode && action.joinCode.trim()) {
+    return findEventByCode(store, action.joinCode);
+  }
+  return undefined;
+};
+
+// Helper function to handle a card action, whether it arrived as a message value or an invoke.
+// Returns the card that should now be shown; rejected actions get the current card with a notice.
+const handleCardAction = async (
+  store: StateStore,
+  conversationId: string,
+  state: UserState,
+  data: any
+): Promise<any> => {
+  const { action, error } = parseCardAction(data);
+  if (!action) {
+    log.warn("Rejected card action", { reason: error });
+    return withNotice(await createCurrentCard(store, conversationId, state), t("notice.invalidAction"));
+  }
+
+  // Handle "join" action from welcome card
+  if (action.type === "join") {
+    const event = await resolveJoinTarget(store, action);
+    if (!event || event.status !== "open") {
+      return withNotice(
+        await createWelcomeCard(store, state),
+        action.joinCode ? t("notice.unknownCode", { code: action.joinCode.trim() }) : t("notice.pickEvent")
+      );
+    }
+
+    // Joining the event the user is already in (e.g. from a round reminder) continues where they left off
+    if (state.eventId !== event.id) {
+      state.eventId = event.id;
+      await saveUserState(store, conversationId, state);
+      countFunnelStep("started");
+    }
+    return createProgressCard(store, await loadParticipant(store, event.id, conversationId));
+  }
+
+  // Handle feedback on a match, which doesn't depend on the event the user is in now
+  if (action.type === "feedback") {
+    return handleFeedbackAction(store, conversationId, action);
+  }
+
+  // Everything else needs an event to be joined first
+  const event = state.eventId ? await getEvent(store, state.eventId) : undefined;
+  if (!event) {
+    return createWelcomeCard(store, state);
+  }
+  const questionnaire = getEventQuestionnaire(event);
+  const participant = await loadParticipant(store, event.id, conversationId);
+  const isStale = (session: Partial<CardSession>) =>
+    session.sessionId !== participant.sessionId || session.questionnaireId !== questionnaire.id;
+
+  // Why answers can't be changed from a card of this session right now, if they can't
+  const getChangeRejection = (session: CardSession): string | undefined => {
+    if (event.status !== "open") {
+      return t("notice.eventClosed", { event: event.name });
+    }
+    if (isStale(session)) {
+      return t("notice.staleCard");
+    }
+    if (participant.matchId) {
+      return t("notice.alreadyPaired");
+    }
+    return undefined;
   };
+
+  // Handle card refresh: old cards turn into read-only versions, current ones show the latest state
+  if (action.type === "refresh") {
+    if (action.view === "welcome") {
+      return buildJoinedCard(event);
+    }
+    if (action.sessionId && isStale(action)) {
+      return buildExpiredCard();
+    }
+    if (action.view === "summary") {
+      return participant.matchId
+        ? createProgressCard(store, participant)
+        : createSummaryCard(questionnaire, participant);
+    }
+    if (action.edit && !participant.matchId) {
+      const editCard = createEditCard(questionnaire, participant, action.questionId);
+      if (editCard) {
+        return editCard;
+      }
+    }
+    const question = questionnaire.questions.find((q) => q.id === action.questionId);
+    const answer = question && participant.answers[question.id];
+    if (question && answer) {
+      const position = questionnaire.questions.indexOf(question) + 1;
+      return buildAnsweredCard(question, position, answer, getCardSession(questionnaire, participant));
+    }
+    return createProgressCard(store, participant);
+  }
+
+  // Handle "Edit" on the answers summary
+  if (action.type === "edit") {
+    const rejection = getChangeRejection(action);
+    const editCard = createEditCard(questionnaire, participant, action.questionId);
+    if (rejection || !editCard) {
+      return withNotice(await createProgressCard(store, participant), rejection || t("notice.questionGone"));
+    }
+    return editCard;
+  }
+
+  // Handle confirmation of the reviewed answers, which enters the user into matching
+  if (action.type === "confirm") {
+    const rejection =
+      getChangeRejection(action) ||
+      (isComplete(questionnaire, participant.answers) ? undefined : t("notice.answerEverything"));
+    if (rejection) {
+      return withNotice(await createProgressCard(store, participant), rejection);
+    }
+    participant.confirmedAt = participant.confirmedAt || new Date().toISOString();
+    await saveParticipant(store, participant);
+  }
+
+  // Handle answer submissions, rejecting stale, duplicate and out-of-order ones.
+  // Cards opened from the summary may change an earlier answer until the user is paired.
+  if (action.type === "answer") {
+    const editing = !!action.edit && !!participant.answers[action.questionId];
+    let rejection = getChangeRejection(action);
+    // A card sent for another position of the question (e.g. before the questions were reordered) is stale
+    const position = questionnaire.questions.findIndex((q) => q.id === action.questionId) + 1;
+    if (!rejection && position > 0 && action.step !== position) {
+      rejection = t("notice.staleCard");
+    }
+    if (!rejection && !editing) {
+      if (participant.answers[action.questionId]) {
+        rejection = t("notice.alreadyAnswered");
+      } else if (getNextQuestion(questionnaire, participant.answers)?.id !== action.questionId) {
+        rejection = t("notice.answerInOrder");
+      }
+    }
+    if (!rejection && !recordAnswer(questionnaire, participant, action.questionId, action.value)) {
+      rejection = t("notice.notAnOption");
+    }
+
+    if (rejection) {
+      return withNotice(await createProgressCard(store, participant), rejection);
+    }
+
+    if (editing) {
+      // A changed answer has to be confirmed again before it is used for matching
+      const wasConfirmed = !!participant.confirmedAt;
+      delete participant.confirmedAt;
+      await saveParticipant(store, participant);
+      const summary = createSummaryCard(questionnaire, participant);
+      return wasConfirmed && isComplete(questionnaire, participant.answers)
+        ? withNotice(summary, t("notice.confirmAgain"))
+        : summary;
+    }
+    await saveParticipant(store, participant);
+    countFunnelStep(action.questionId);
+  }
+
+  // Next question or final card ("start" comes from older welcome cards)
+  return createProgressCard(store, participant);
+};
+
+// Helper function to answer the current question with typed text (an option's name or number).
+// Text that doesn't match an option gets the current card again with a hint.
+const handleTypedAnswer = async (store: StateStore, conversationId: string, state: UserState, text: string) => {
+  const event = state.eventId ? await getEvent(store, state.eventId) : undefined;
+  if (!event) {
+    return withNotice(await createWelcomeCard(store, state), t("notice.notUnderstood"));
+  }
+  const questionnaire = getEventQuestionnaire(event);
+  const participant = await loadParticipant(store, event.id, conversationId);
+  const question = getNextQuestion(questionnaire, participant.answers);
+  const value = question && matchOption(question, text, getLanguage());
+  if (!value) {
+    return withNotice(await createProgressCard(store, participant), t("notice.notUnderstood"));
+  }
+
+  // Same path as tapping the option, so closed events and paired users are handled alike
+  return handleCardAction(store, conversationId, state, {
+    type: "answer",
+    ...getCardSession(questionnaire, participant),
+    questionId: question.id,
+    value,
+    step: questionnaire.questions.indexOf(question) + 1,
+  });
 };
 
-// Helper function to send next question or final card
-const sendNextQuestion = async (context: any, conversationId: string) => {
-  const state = getUserState(conversationId);
-
-  if (!state.q1) {
-    // Send question 1
-    await context.send({
-      type: "message",
-      attachments: [createCardAttachment(question1Card)],
-    });
-  } else if (!state.q2) {
-    // Send question 2
-    await context.send({
-      type: "message",
-      attachments: [createCardAttachment(question2Card)],
-    });
-  } else if (!state.q3) {
-    // Send question 3
-    await context.send({
-      type: "message",
-      attachments: [createCardAttachment(question3Card)],
-    });
-  } else {
-    // All questions answered, send final pair card
-    await context.send({
-      type: "message",
-      attachments: [createCardAttachment(finalMatchCard)],
-    });
+// Helper function to start a user over: leave their event, drop its answers and show the welcome card again
+const restartUser = async (context: any, store: StateStore, conversationId: string, state: UserState) => {
+  if (state.eventId) {
+    await deleteParticipant(store, state.eventId, conversationId);
   }
+  state.eventId = undefined;
+  state.hasStarted = true;
+  await saveUserState(store, conversationId, state);
+  await sendCard(context, await createWelcomeCard(store, state));
+  countFunnelStep("welcome_shown");
 };
 
+const HELP_SECTIONS: { permission: CommandPermission; title: () => string }[] = [
+  { permission: "everyone", title: () => t("help.everyone") },
+  { permission: "organizer", title: () => t("help.organizer") },
+  { permission: "admin", title: () => t("help.admin") },
+];
+
+// Commands everyone can use; organizer and admin commands come from their modules
+const USER_COMMANDS: CommandDefinition[] = [
+  {
+    name: "/help",
+    description: "List the commands you can use.",
+    permission: "everyone",
+    handler: async ({ context }) => {
+      const available = commands.listFor(context.activity);
+      const sections = HELP_SECTIONS.map(({ permission, title }) => ({
+        title: title(),
+        commands: available
+          .filter((command) => command.permission === permission)
+          .map((command) => ({ title: command.usage || command.name, value: command.description })),
+      }));
+      await sendCard(context, buildHelpCard(sections));
+    },
+  },
+  {
+    name: "/myanswers",
+    description: "Review or change your answers until you are paired.",
+    permission: "everyone",
+    scope: "personal",
+    handler: async ({ context, store }) => {
+      const conversationId = context.activity.conversation.id;
+      await sendCard(context, await createMyAnswersCard(store, conversationId, await getUserState(store, conversationId)));
+    },
+  },
+  {
+    name: "/reset",
+    description: "Start over: leave your event and delete your answers.",
+    permission: "everyone",
+    scope: "personal",
+    handler: async ({ context, store }) => {
+      const conversationId = context.activity.conversation.id;
+      await restartUser(context, store, conversationId, await getUserState(store, conversationId));
+    },
+  },
+  {
+    name: "/language",
+    usage: "/language [en|de|ja|auto]",
+    description: "Pick the language I talk to you in, or follow your Teams language.",
+    permission: "everyone",
+    scope: "personal",
+    handler: async ({ context, store, args }) => {
+      const conversationId = context.activity.conversation.id;
+      const state = await getUserState(store, conversationId);
+      const choice = args[0]?.toLowerCase();
+      const options = Object.keys(LANGUAGE_NAMES).join(", ");
+      if (!choice) {
+        await context.send(t("language.current", { language: LANGUAGE_NAMES[getLanguage()], options }));
+        return;
+      }
+      if (choice !== "auto" && !isLanguage(choice)) {
+        await context.send(t("language.unknown", { value: args[0], options }));
+        return;
+      }
+      state.language = choice === "auto" ? undefined : (choice as Language);
+      await saveUserState(store, conversationId, state);
+
+      // The confirmation is already in the new language
+      const language = getUserLanguage(state, context.activity);
+      await withLanguage(language, () =>
+        context.send(t(choice === "auto" ? "language.auto" : "language.changed", { language: LANGUAGE_NAMES[language] }))
+      );
+    },
+  },
+];
+
+// Every slash command of the bot; also the source of the manifest's command list
+export const commands = createCommandRegistry([
+  ...USER_COMMANDS,
+  ...ORGANIZER_COMMANDS,
+  ...ROUND_COMMANDS,
+  ...SCHEDULE_COMMANDS,
+  ...FEEDBACK_COMMANDS,
+  ...DIAGNOSTICS_COMMANDS,
+]);
+
 // Setup bot logic
-export const setupBot = (app: App) => {
+export const setupBot = (dispatcher: Dispatcher, store: StateStore) => {
+  // Helper function to handle each activity only once, as channels retry deliveries they consider failed.
+  // When handling fails the id is forgotten again, so the retry isn't dropped as a duplicate.
+  const handleOnce = async <T>(
+    conversationId: string,
+    activityId: string | undefined,
+    handle: () => Promise<T>,
+    duplicate: () => T
+  ): Promise<T> => {
+    if (!(await markActivityProcessed(store, conversationId, activityId))) {
+      return duplicate();
+    }
+    try {
+      return await handle();
+    } catch (err) {
+      await forgetActivityProcessed(store, conversationId, activityId);
+      throw err;
+    }
+  };
+
   // Handle incoming messages
-  app.on("message", async (context) => {
+  const handleMessage: ActivityHandler = async (context) => {
     const activity = context.activity;
-    const conversationId = activity.conversation.id;
-    const state = getUserState(conversationId);
+    await handleOnce(activity.conversation.id, activity.id, () => replyToMessage(context), () => undefined);
+  };
 
-    // Handle adaptive card submit actions (can come as message with value)
-    if (activity.type === "message" && activity.value) {
-      const value = activity.value as any;
+  // Reply to a message that wasn't handled before: a command, a typed answer or an Action.Submit click
+  const replyToMessage = async (context: any) => {
+    const activity = context.activity;
+    const conversationId = activity.conversation.id;
 
-      // Handle "start" action from welcome card
-      if (value.type === "start") {
-        await sendNextQuestion(context, conversationId);
-        return;
+    // Team channels and group chats are shared, so they only take commands (e.g. /round);
+    // the questionnaire itself always runs in personal chats
+    if (!isPersonalConversation(activity)) {
+      const rawText: string = activity.text ? stripMentionsText(activity).trim() : "";
+      if (!(await commands.handle({ context, store }, rawText))) {
+        await context.send(t("group.hint"));
       }
+      return;
+    }
 
-      // Handle answer submissions
-      if (value.type === "answer" && value.questionId && value.value) {
-        const questionId = value.questionId as number;
-        const answer = value.value as string;
-
-        // Store the answer
-        if (questionId === 1) {
-          state.q1 = answer;
-        } else if (questionId === 2) {
-          state.q2 = answer;
-        } else if (questionId === 3) {
-          state.q3 = answer;
-        }
+    const state = await getUserState(store, conversationId);
+    updateIdentity(state, activity);
+    await saveUserState(store, conversationId, state);
 
-        // Send next question or final card
-        await sendNextQuestion(context, conversationId);
-        return;
-      }
+    // Handle adaptive card submit actions (can come as message with value)
+    if (activity.type === "message" && activity.value) {
+      await sendCard(context, await handleCardAction(store, conversationId, state, activity.value));
+      return;
     }
 
     // Check if this is a text message (first interaction or restart)
     if (activity.type === "message" && activity.text) {
-      const text: string = stripMentionsText(activity).toLowerCase().trim();
+      const rawText: string = stripMentionsText(activity).trim();
+      const text = rawText.toLowerCase();
+
+      // Slash commands (/help lists them); unknown ones get a suggestion
+      if (await commands.handle({ context, store }, rawText)) {
+        return;
+      }
+
+      const event = state.eventId ? await getEvent(store, state.eventId) : undefined;
+      const participant = event ? await getParticipant(store, event.id, conversationId) : undefined;
 
       // If user has completed all questions and sends "hi" or similar, reset and restart
-      if (state.q1 && state.q2 && state.q3) {
-        if (text === "hi" || text === "hello" || text === "hey" || text === "start" || text === "restart" || text === "begin") {
+      if (participant && isComplete(getEventQuestionnaire(event), participant.answers)) {
+        if (getConfig().restartKeywords.includes(text)) {
           // Reset state to start fresh
-          delete userState[conversationId];
-          const resetState = getUserState(conversationId);
-          resetState.hasStarted = true;
-          await context.send({
-            type: "message",
-            attachments: [createCardAttachment(welcomeCard)],
-          });
+          await restartUser(context, store, conversationId, state);
           return;
         }
+
+        // Any other message shows the current match status again
+        await sendCard(context, await createProgressCard(store, participant));
+        return;
       }
 
       // If user hasn't started, send welcome card
       if (!state.hasStarted) {
         state.hasStarted = true;
-        await context.send({
-          type: "message",
-          attachments: [createCardAttachment(welcomeCard)],
-        });
+        await saveUserState(store, conversationId, state);
+        await sendCard(context, await createWelcomeCard(store, state));
+        countFunnelStep("welcome_shown");
         return;
       }
+
+      // Anything else answers the current question if it names an option, or gets the card again
+      await sendCard(context, await handleTypedAnswer(store, conversationId, state, rawText));
     }
-  });
+  };
 
-  // Handle adaptive card invoke actions
-  app.on("invoke", async (context) => {
+  // Handle adaptive card invoke actions (Universal Actions)
+  const handleCardInvoke: ActivityHandler = async (context) => {
     const activity = context.activity;
-    
+
     // Handle adaptive card actions
     if (activity.type === "invoke" && activity.name === "adaptiveCard/action") {
       const conversationId = activity.conversation?.id;
       if (!conversationId) {
         return;
       }
+      return handleOnce(
+        conversationId,
+        activity.id,
+        () => runCardAction(context, conversationId),
+        () => createMessageInvokeResponse(t("notice.alreadyDone"))
+      );
+    }
+  };
 
-      const state = getUserState(conversationId);
-      const actionData = activity.value?.action as any;
+  // Run the action of a card click that wasn't handled before, and answer with the card that replaces it
+  const runCardAction = async (context: any, conversationId: string) => {
+    const activity = context.activity;
+    if (!isPersonalConversation(activity)) {
+      return createMessageInvokeResponse(t("group.cardHint"));
+    }
 
-      if (actionData?.type === "Action.Submit" && actionData.data) {
-        const data = actionData.data;
+    const state = await getUserState(store, conversationId);
+    updateIdentity(state, activity);
+    await saveUserState(store, conversationId, state);
+    const actionData = activity.value?.action as any;
+    if (!actionData) {
+      return;
+    }
 
-        // Handle "start" action from welcome card
-        if (data.type === "start") {
-          await sendNextQuestion(context, conversationId);
-          return;
-        }
+    // Action.Execute carries the verb next to its data; older Action.Submit cards only have data.type
+    const data = { ...(actionData.data || {}), type: actionData.verb || actionData.data?.type };
+    const card = await handleCardAction(store, conversationId, state, data);
 
-        // Handle answer submissions
-        if (data.type === "answer" && data.questionId && data.value) {
-          const questionId = data.questionId as number;
-          const answer = data.value as string;
-
-          // Store the answer
-          if (questionId === 1) {
-            state.q1 = answer;
-          } else if (questionId === 2) {
-            state.q2 = answer;
-          } else if (questionId === 3) {
-            state.q3 = answer;
-          }
-
-          // Send next question or final card
-          await sendNextQuestion(context, conversationId);
-          return;
-        }
+    // Replace the clicked card in place instead of posting a new message
+    return createCardInvokeResponse(forUser(card, activity.from?.id));
+  };
+
+  // Greet a user as soon as the bot is installed for them, before they type anything.
+  // Teams sends both a conversationUpdate and an installationUpdate for one install; only the first one greets.
+  const welcomeInstallingUser = async (context: any) => {
+    const activity = context.activity;
+    const conversationId = activity.conversation.id;
+    const state = await getUserState(store, conversationId);
+    if (state.hasStarted) {
+      return;
+    }
+    updateIdentity(state, activity);
+    state.hasStarted = true;
+    await saveUserState(store, conversationId, state);
+    await sendCard(context, await createWelcomeCard(store, state));
+    countFunnelStep("welcome_shown");
+  };
+
+  // Greet someone who just joined a team or group chat the bot is in, in their personal chat
+  const welcomeNewMember = async (activity: any, member: any) => {
+    const reference = await openPersonalConversation(getConversationReference(activity), member);
+    if (!reference) {
+      return;
+    }
+    const state = await getUserState(store, reference.conversation.id);
+    if (state.hasStarted) {
+      return;
+    }
+    setIdentity(state, member);
+    state.reference = reference;
+    state.hasStarted = true;
+    await saveUserState(store, reference.conversation.id, state);
+    const welcomeCard = forUser(await createWelcomeCard(store, state), member.id);
+    if (await sendProactive(reference, { attachments: [createCardAttachment(welcomeCard)] })) {
+      countFunnelStep("welcome_shown");
+    }
+  };
+
+  // Handle installs, uninstalls and members joining (conversationUpdate and installationUpdate)
+  const handleInstallation: ActivityHandler = async (context) => {
+    const activity = context.activity;
+    const conversationId = activity.conversation?.id;
+    if (!conversationId) {
+      return;
+    }
+
+    if (isBotRemoved(activity)) {
+      const purged = await purgeConversation(store, conversationId);
+      // Rounds scheduled in a team or group chat stop with it
+      await deleteSchedule(store, conversationId);
+      log.info("Bot removed, conversation state purged", purged);
+      return;
+    }
+
+    if (isPersonalConversation(activity)) {
+      if (isBotAdded(activity)) {
+        await welcomeInstallingUser(context);
       }
+      return;
     }
-  });
-};
+    for (const member of getAddedMembers(activity)) {
+      await welcomeNewMember(activity, member);
+    }
+  };
 
+  // Run a handler in the language of the user (or team channel or group chat) the activity comes from
+  const inUserLanguage =
+    (handler: ActivityHandler): ActivityHandler =>
+    async (context) => {
+      const conversationId = context.activity.conversation?.id;
+      const state = conversationId ? await getUserState(store, conversationId) : {};
+      return withLanguage(getUserLanguage(state, context.activity), () => handler(context));
+    };
+
+  dispatcher.on("message", inUserLanguage(handleMessage), "handleMessage");
+  dispatcher.on("conversationUpdate", inUserLanguage(handleInstallation), "handleInstallation");
+  dispatcher.on("installationUpdate", inUserLanguage(handleInstallation), "handleInstallation");
+  dispatcher.on("invoke", inUserLanguage(handleCardInvoke), "handleCardInvoke");
+};
@@ -0,0 +1,150 @@
+// Typed protocol for the data carried by card actions (Action.Execute verbs or Action.Submit data)
+
+// Identifies the questionnaire run a card was generated for, so stale cards can be recognized
+export interface CardSession {
+  sessionId: string;
+  questionnaireId: string;
+}
+
+export interface JoinAction {
+  type: "join";
+  eventId?: string;
+  joinCode?: string;
+}
+
+export interface StartAction {
+  type: "start";
+}
+
+export interface AnswerAction extends CardSession {
+  type: "answer";
+  questionId: string;
+  value: string;
+  // Position of the question in the questionnaire when the card was sent (1-based)
+  step: number;
+  // Set on cards opened from the answers summary, where changing an earlier answer is allowed
+  edit?: boolean;
+}
+
+// "Edit" next to an answer on the summary card
+export interface EditAction extends CardSession {
+  type: "edit";
+  questionId: string;
+}
+
+// Confirmation of the reviewed answers; only confirmed participants are matched
+export interface ConfirmAction extends CardSession {
+  type: "confirm";
+}
+
+export interface RefreshAction extends Partial<CardSession> {
+  type: "refresh";
+  view: "welcome" | "question" | "summary" | "status";
+  questionId?: string;
+  edit?: boolean;
+}
+
+// Answer to the feedback request sent some time after a match; the inputs arrive as strings
+export interface FeedbackAction {
+  type: "feedback";
+  matchId: string;
+  met: "yes" | "no";
+  rating?: string;
+  comment?: string;
+}
+
+export type CardAction =
+  | JoinAction
+  | StartAction
+  | AnswerAction
+  | EditAction
+  | ConfirmAction
+  | RefreshAction
+  | FeedbackAction;
+
+// Either the validated action or the reason it was rejected
+export interface ParseResult {
+  action?: CardAction;
+  error?: string;
+}
+
+type FieldType = "string" | "number" | "boolean";
+
+interface FieldSpec {
+  type: FieldType;
+  optional?: boolean;
+  oneOf?: readonly string[];
+}
+
+// Expected fields per action type. Unknown fields are ignored, because Teams merges
+// the values of every card input into the data of each action.
+const ACTION_SCHEMAS: Record<CardAction["type"], Record<string, FieldSpec>> = {
+  join: {
+    eventId: { type: "string", optional: true },
+    joinCode: { type: "string", optional: true },
+  },
+  start: {},
+  answer: {
+    questionId: { type: "string" },
+    value: { type: "string" },
+    sessionId: { type: "string" },
+    questionnaireId: { type: "string" },
+    step: { type: "number" },
+    edit: { type: "boolean", optional: true },
+  },
+  edit: {
+    questionId: { type: "string" },
+    sessionId: { type: "string" },
+    questionnaireId: { type: "string" },
+  },
+  confirm: {
+    sessionId: { type: "string" },
+    questionnaireId: { type: "string" },
+  },
+  refresh: {
+    view: { type: "string", oneOf: ["welcome", "question", "summary", "status"] },
+    questionId: { type: "string", optional: true },
+    edit: { type: "boolean", optional: true },
+    sessionId: { type: "string", optional: true },
+    questionnaireId: { type: "string", optional: true },
+  },
+  feedback: {
+    matchId: { type: "string" },
+    met: { type: "string", oneOf: ["yes", "no"] },
+    rating: { type: "string", optional: true, oneOf: ["1", "2", "3", "4", "5"] },
+    comment: { type: "string", optional: true },
+  },
+};
+
+// Validate raw action data against the schema of its type
+export const parseCardAction = (data: any): ParseResult => {
+  if (!data || typeof data !== "object") {
+    return { error: "action data must be an object" };
+  }
+
+  // Only the schemas' own keys, so types like "constructor" or "__proto__" don't skip validation
+  if (typeof data.type !== "string" || !Object.hasOwn(ACTION_SCHEMAS, data.type)) {
+    return { error: `unknown action type "${data.type}"` };
+  }
+  const schema = ACTION_SCHEMAS[data.type as CardAction["type"]];
+
+  const action: Record<string, any> = { type: data.type };
+  for (const [field, spec] of Object.entries(schema)) {
+    const value = data[field];
+    if (value === undefined || value === null || value === "") {
+      if (!spec.optional) {
+        return { error: `${data.type}.${field} is required` };
+      }
+      continue;
+    }
+    if (typeof value !== spec.type) {
+      return { error: `${data.type}.${field} must be a ${spec.type}` };
+    }
+    if (spec.oneOf && !spec.oneOf.includes(value)) {
+      return { error: `${data.type}.${field} must be one of ${spec.oneOf.join(", ")}` };
+    }
+    action[field] = value;
+  }
+
+  return { action: action as CardAction };
+};
@@ -0,0 +1,229 @@
+// Adaptive Card templating: card JSON with ${...} bindings, $when conditions and $data scopes is expanded against
+// data before the card is sent, like the Adaptive Cards templating language. Only the part of the expression
+// language the bot's cards use is supported: property paths (with $root, $data and $index), string, number and
+// boolean literals, !, comparisons, && and ||, and parentheses; there are no functions (use `list.length`).
+// Templates may also hold {bundle.key} tokens, which the caller's localize function turns into text.
+
+// Where bindings are looked up: the current $data, the data the template was expanded with, and the position
+// of the current item when a $data list repeats an element
+interface Scope {
+  data: any;
+  root: any;
+  index?: number;
+  localize?: Localize;
+}
+
+// Text of a {bundle.key} token, with the current $data for its placeholders
+export type Localize = (key: string, data: any) => string;
+
+type Token = { kind: "operator" | "literal" | "path"; value: any };
+
+const TOKEN_PATTERN =
+  /\s*(?:(\|\||&&|==|!=|>=|<=|[!()<>])|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|(\d+(?:\.\d+)?)|([$\w]+(?:\.[$\w]+|\[\d+\])*))/y;
+
+// Helper function to split an expression into operators, literals and property paths
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < expression.length) {
+    if (!expression.slice(TOKEN_PATTERN.lastIndex).trim()) {
+      break;
+    }
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      throw new Error(`Can't read template expression "${expression}"`);
+    }
+    const [, operator, single, double, number, path] = match;
+    if (operator) {
+      tokens.push({ kind: "operator", value: operator });
+    } else if (single !== undefined || double !== undefined) {
+      tokens.push({ kind: "literal", value: (single ?? double).replace(/\\(.)/g, "$1") });
+    } else if (number) {
+      tokens.push({ kind: "literal", value: Number(number) });
+    } else if (path === "true" || path === "false" || path === "null") {
+      tokens.push({ kind: "literal", value: path === "null" ? null : path === "true" });
+    } else {
+      tokens.push({ kind: "path", value: path });
+    }
+  }
+  return tokens;
+};
+
+// Helper function to look up a property path like "partner.name", "$root.events[0]" or "$index"
+const resolvePath = (path: string, scope: Scope): any => {
+  const [first, ...rest] = path.split(/\.|(?=\[)/);
+  let value: any;
+  if (first === "$root") {
+    value = scope.root;
+  } else if (first === "$data") {
+    value = scope.data;
+  } else if (first === "$index") {
+    value = scope.index;
+  } else {
+    value = scope.data?.[first];
+  }
+  for (const segment of rest) {
+    const key = segment.startsWith("[") ? Number(segment.slice(1, -1)) : segment;
+    value = value?.[key];
+  }
+  return value;
+};
+
+// Empty strings and lists count as false, like missing values
+export const isTruthy = (value: any): boolean => {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+};
+
+const compare = (operator: string, left: any, right: any): boolean => {
+  switch (operator) {
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case ">":
+      return left > right;
+    case "<":
+      return left < right;
+    case ">=":
+      return left >= right;
+    default:
+      return left <= right;
+  }
+};
+
+// Evaluate one expression (the text between "${" and "}") in a scope
+export const evaluateExpression = (expression: string, scope: Scope): any => {
+  const tokens = tokenize(expression);
+  let position = 0;
+  const peek = () => tokens[position];
+  const isOperator = (...operators: string[]) => peek()?.kind === "operator" && operators.includes(peek().value);
+
+  // Precedence, loosest first: ||, &&, comparisons, !, then literals, paths and parentheses
+  const parseOr = (): any => {
+    let value = parseAnd();
+    while (isOperator("||")) {
+      position++;
+      const right = parseAnd();
+      value = isTruthy(value) ? value : right;
+    }
+    return value;
+  };
+  const parseAnd = (): any => {
+    let value = parseComparison();
+    while (isOperator("&&")) {
+      position++;
+      const right = parseComparison();
+      value = isTruthy(value) ? right : value;
+    }
+    return value;
+  };
+  const parseComparison = (): any => {
+    let value = parseUnary();
+    while (isOperator("==", "!=", ">", "<", ">=", "<=")) {
+      const operator = tokens[position++].value;
+      value = compare(operator, value, parseUnary());
+    }
+    return value;
+  };
+  const parseUnary = (): any => {
+    if (isOperator("!")) {
+      position++;
+      return !isTruthy(parseUnary());
+    }
+    return parsePrimary();
+  };
+  const parsePrimary = (): any => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error(`Template expression "${expression}" ends too early`);
+    }
+    if (token.kind === "literal") {
+      return token.value;
+    }
+    if (token.kind === "path") {
+      return resolvePath(token.value, scope);
+    }
+    if (token.value === "(") {
+      const value = parseOr();
+      if (!isOperator(")")) {
+        throw new Error(`Template expression "${expression}" misses a ")"`);
+      }
+      position++;
+      return value;
+    }
+    throw new Error(`Unexpected "${token.value}" in template expression "${expression}"`);
+  };
+
+  const value = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].value}" in template expression "${expression}"`);
+  }
+  return value;
+};
+
+// Helper function to expand the bindings of a string. A string that is one binding keeps the value's type
+// (a list for $data, a number for action data); bindings within text are written out, missing values as "".
+// Bindings and {bundle.key} tokens are replaced in one pass, so values are never read as template text.
+const expandString = (text: string, scope: Scope): any => {
+  const whole = /^\$\{([^}]*)\}$/.exec(text);
+  if (whole) {
+    return evaluateExpression(whole[1], scope);
+  }
+  return text.replace(/\$\{([^}]*)\}|\{(\w+(?:\.\w+)+)\}/g, (token, expression, key) => {
+    if (key) {
+      return scope.localize ? scope.localize(key, scope.data) : token;
+    }
+    const value = evaluateExpression(expression, scope);
+    return value === undefined || value === null ? "" : String(value);
+  });
+};
+
+// Helper function to expand an object into what it stands for: nothing when its $when is false, one copy per
+// item when its $data is a list, otherwise one copy with $data (if given) as the scope of its bindings
+const expandObject = (object: Record<string, any>, scope: Scope): any[] => {
+  const { $data, $when, ...properties } = object;
+  let scopes = [scope];
+  if ($data !== undefined) {
+    const data = expandValue($data, scope);
+    scopes = Array.isArray(data)
+      ? data.map((item, index) => ({ ...scope, data: item, index }))
+      : [{ ...scope, data }];
+  }
+
+  const results: any[] = [];
+  for (const itemScope of scopes) {
+    if ($when !== undefined && !isTruthy(expandValue($when, itemScope))) {
+      continue;
+    }
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(properties)) {
+      const expanded = expandValue(value, itemScope);
+      if (expanded !== undefined) {
+        result[key] = expanded;
+      }
+    }
+    results.push(result);
+  }
+  return results;
+};
+
+const expandValue = (value: any, scope: Scope): any => {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) =>
+      item && typeof item === "object" && !Array.isArray(item) ? expandObject(item, scope) : [expandValue(item, scope)]
+    );
+  }
+  if (value && typeof value === "object") {
+    // Outside of lists an object can't repeat; it is left out when its $when is false
+    return expandObject(value, scope)[0];
+  }
+  if (typeof value === "string") {
+    return expandString(value, scope);
+  }
+  return value;
+};
+
+// Expand a card template against data; the template itself is left unchanged
+export const expandTemplate = (template: any, data: any = {}, localize?: Localize): any => {
+  return expandValue(template, { data, root: data, localize });
+};
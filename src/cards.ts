@@ -0,0 +1,247 @@
+import { Attachment } from "@microsoft/teams.api";
+import answeredCard from "./adaptiveCards/answeredCard.json";
+import answersSummaryCard from "./adaptiveCards/answersSummaryCard.json";
+import expiredCard from "./adaptiveCards/expiredCard.json";
+import feedbackCard from "./adaptiveCards/feedbackCard.json";
+import feedbackThanksCard from "./adaptiveCards/feedbackThanksCard.json";
+import finalMatchCard from "./adaptiveCards/finalMatchCard.json";
+import helpCard from "./adaptiveCards/helpCard.json";
+import joinedCard from "./adaptiveCards/joinedCard.json";
+import questionCard from "./adaptiveCards/questionCard.json";
+import roundCard from "./adaptiveCards/roundCard.json";
+import summaryCard from "./adaptiveCards/summaryCard.json";
+import waitingForMatchCard from "./adaptiveCards/waitingForMatchCard.json";
+import welcomeCard from "./adaptiveCards/welcomeCard.json";
+import { CardSession } from "./cardActions";
+import { expandTemplate } from "./cardTemplates";
+import { HoogahEvent } from "./events";
+import { getLanguage, MessageKey, t } from "./i18n";
+import {
+  Answers,
+  getOptionLabel,
+  getQuestionText,
+  QuestionDefinition,
+  QuestionnaireDefinition,
+} from "./questionnaire";
+
+// Everyone a user was grouped with
+export interface MatchPartner {
+  // Display names, e.g. "Ann" or "Ann & Bob"
+  name: string;
+  // One entry per person, shown with their initials
+  people: { name: string; initials: string }[];
+  // Ids Teams accepts in a chat deep link (UPNs, or "8:orgid:<AAD object id>" when the UPN is unknown); several open
+  // a group chat, none leaves the chat button out
+  chatIds: string[];
+  // Answers everyone in the group gave alike, as shown to the user
+  sharedAnswers: { question: string; answer: string }[];
+}
+
+// Helper function to create adaptive card attachment
+export const createCardAttachment = (card: any): Attachment => {
+  return {
+    contentType: "application/vnd.microsoft.card.adaptive",
+    content: card,
+  };
+};
+
+// Helper function to fill a card template (src/adaptiveCards): ${...} bindings, $when and $data are expanded
+// against the data, and {bundle.key} tokens become texts in the language of the current turn
+const renderTemplate = (card: any, data: Record<string, any> = {}): any => {
+  return expandTemplate(card, data, (key, values) => t(key as MessageKey, values));
+};
+
+// Helper function to get the initials shown in place of a partner's avatar, e.g. "AS" for "Ann Smith"
+export const getInitials = (name: string): string => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  const letters = words.length > 1 ? [words[0], words[words.length - 1]] : words;
+  return letters.map((word) => Array.from(word)[0].toUpperCase()).join("") || "?";
+};
+
+// Welcome card with a join code input and one button per currently open event; greets the user when their name is known
+export const buildWelcomeCard = (openEvents: HoogahEvent[], name?: string): any => {
+  return renderTemplate(welcomeCard, {
+    name,
+    events: openEvents.map((event) => ({ id: event.id, name: event.name })),
+  });
+};
+
+// Card inviting a member of a team or group chat to a round, sent to their personal chat; "Take part" joins it
+export const buildRoundInvitationCard = (round: HoogahEvent): any => {
+  return renderTemplate(roundCard, {
+    round: round.name,
+    organizer: round.round?.startedBy || t("round.anOrganizer"),
+    eventId: round.id,
+  });
+};
+
+// Card reminding a member who hasn't finished the questionnaire of a round yet; joining again picks up where they left off
+export const buildRoundReminderCard = (round: HoogahEvent): any => {
+  return renderTemplate(roundCard, { round: round.name, eventId: round.id, reminder: true });
+};
+
+// Generate the card for one questionnaire question, with one button per option.
+// Every action carries the session it belongs to, so answers from stale cards can be rejected.
+// Passing the current answer opens the question for editing from the answers summary.
+export const buildQuestionCard = (
+  question: QuestionDefinition,
+  position: number,
+  session: CardSession,
+  currentAnswer?: string
+): any => {
+  const editing = currentAnswer !== undefined;
+  return renderTemplate(questionCard, {
+    ...session,
+    position,
+    questionId: question.id,
+    question: getQuestionText(question, getLanguage()),
+    edit: editing || undefined,
+    answer: editing ? getOptionLabel(question, currentAnswer, getLanguage()) : undefined,
+    options: question.options.map((option) => ({ value: option, label: getOptionLabel(question, option, getLanguage()) })),
+  });
+};
+
+// Read-only version of a question card, shown once the question has been answered
+export const buildAnsweredCard = (
+  question: QuestionDefinition,
+  position: number,
+  answer: string,
+  session: CardSession
+): any => {
+  return renderTemplate(answeredCard, {
+    ...session,
+    position,
+    questionId: question.id,
+    question: getQuestionText(question, getLanguage()),
+    answer: getOptionLabel(question, answer, getLanguage()),
+  });
+};
+
+// Summary of every answer with an "Edit" action per question; confirming it enters matching.
+// Without a confirm action (e.g. before all questions are answered) the user can continue instead;
+// once confirmed it only says they are waiting for a match.
+export const buildAnswersSummaryCard = (
+  questionnaire: QuestionnaireDefinition,
+  answers: Answers,
+  session: CardSession,
+  canConfirm: boolean,
+  confirmed = false
+): any => {
+  return renderTemplate(answersSummaryCard, {
+    ...session,
+    canConfirm,
+    confirmed,
+    questions: questionnaire.questions.map((question, index) => {
+      const answer = answers[question.id];
+      return {
+        position: index + 1,
+        questionId: question.id,
+        question: getQuestionText(question, getLanguage()),
+        answer: answer ? getOptionLabel(question, answer, getLanguage()) : undefined,
+      };
+    }),
+  });
+};
+
+// Read-only version of the welcome card, shown once the user has joined an event
+export const buildJoinedCard = (event: HoogahEvent): any => {
+  return renderTemplate(joinedCard, { event: event.name });
+};
+
+// Read-only card replacing cards from an earlier questionnaire session (or another card that can't be used any more)
+export const buildExpiredCard = (text = t("expired.text")): any => {
+  return renderTemplate(expiredCard, { text });
+};
+
+// Put a short notice (e.g. why an action was rejected) at the top of a card
+export const withNotice = (card: any, notice: string): any => {
+  return {
+    ...card,
+    body: [{ type: "TextBlock", text: notice, color: "Attention", wrap: true }, ...card.body],
+  };
+};
+
+// Limit a card's automatic refresh to the user it was sent to (Teams requires user MRIs here)
+export const forUser = (card: any, userId?: string): any => {
+  if (!card.refresh || !userId) {
+    return card;
+  }
+  return {
+    ...card,
+    refresh: { ...card.refresh, userIds: [userId] },
+  };
+};
+
+// Invoke response that shows a short message instead of updating the card
+export const createMessageInvokeResponse = (message: string) => {
+  return {
+    status: 200,
+    body: {
+      statusCode: 200,
+      type: "application/vnd.microsoft.activity.message",
+      value: message,
+    },
+  };
+};
+
+// Invoke response that replaces the card the user clicked (Universal Actions)
+export const createCardInvokeResponse = (card: any) => {
+  return {
+    status: 200,
+    body: {
+      statusCode: 200,
+      type: "application/vnd.microsoft.card.adaptive",
+      value: card,
+    },
+  };
+};
+
+// Final card showing who the user was paired (or grouped) with
+export const buildFinalMatchCard = (partner: MatchPartner): any => {
+  return renderTemplate(finalMatchCard, {
+    partnerName: partner.name,
+    partners: partner.people,
+    sharedAnswers: partner.sharedAnswers,
+    chatLink:
+      partner.chatIds.length > 0
+        ? `https://teams.microsoft.com/l/chat/0/0?users=${partner.chatIds.map(encodeURIComponent).join(",")}`
+        : undefined,
+  });
+};
+
+// Card shown when the user finished but nobody compatible is available yet.
+// Round participants wait for the round to close instead.
+export const buildWaitingForMatchCard = (round?: HoogahEvent): any => {
+  return renderTemplate(waitingForMatchCard, { round: round?.name });
+};
+
+// Card asking the members of a match whether they met and how it was, some time after they were paired
+export const buildFeedbackCard = (matchId: string, partnerName: string): any => {
+  return renderTemplate(feedbackCard, { matchId, partners: partnerName });
+};
+
+// Read-only card replacing the feedback card once it was answered
+export const buildFeedbackThanksCard = (lines: string[]): any => {
+  return renderTemplate(feedbackThanksCard, { lines });
+};
+
+export interface SummaryFact {
+  title: string;
+  value: string;
+}
+
+// Read-only card summarizing the result of an organizer command
+export const buildSummaryCard = (title: string, facts: SummaryFact[], lines: string[] = []): any => {
+  return renderTemplate(summaryCard, { title, facts, lines });
+};
+
+// One group of commands on the help card, e.g. those only organizers can run
+export interface HelpSection {
+  title: string;
+  commands: SummaryFact[];
+}
+
+// Card listing the commands the user can run (/help); sections without commands are left out
+export const buildHelpCard = (sections: HelpSection[]): any => {
+  return renderTemplate(helpCard, { sections });
+};
@@ -0,0 +1,18 @@
+// Time source of the scheduler and of match times. The system clock is used unless a test sets another one, so
+// schedules and feedback requests can be checked offline by moving a manual clock instead of waiting for real time.
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+let clock: Clock = systemClock;
+
+export const setClock = (newClock: Clock | undefined) => {
+  clock = newClock || systemClock;
+};
+
+export const getClock = (): Clock => clock;
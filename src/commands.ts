@@ -0,0 +1,138 @@
+// Slash commands of the Hoogah bot. Each command is registered with its name, a description, who may
+// run it and its handler; /help and the manifest's commandLists (scripts/generateCommandLists.ts) are
+// generated from the registry.
+import { isAdmin } from "./diagnostics";
+import { t } from "./i18n";
+import { isPersonalConversation } from "./lifecycle";
+import { isOrganizer } from "./organizer";
+import { StateStore } from "./storage";
+import { editDistance } from "./textMatching";
+
+// Who may run a command; organizers and admins are listed in ORGANIZER_IDS and ADMIN_IDS
+export type CommandPermission = "everyone" | "organizer" | "admin";
+
+// Where a command can be run: in personal chats, or in team channels and group chats
+export type CommandScope = "personal" | "group";
+
+// What a command handler gets
+export interface CommandContext {
+  // Turn context of the message that carried the command
+  context: any;
+  store: StateStore;
+  // Words after the command name, as typed
+  args: string[];
+}
+
+export interface CommandDefinition {
+  // Starts with "/", e.g. "/reset"
+  name: string;
+  // Shown on the help card instead of the name when the command takes arguments
+  usage?: string;
+  description: string;
+  permission: CommandPermission;
+  // Works anywhere when left out
+  scope?: CommandScope;
+  handler(command: CommandContext): Promise<void>;
+}
+
+export interface CommandRegistry {
+  list(): CommandDefinition[];
+  // Commands the sender of an activity may run in its conversation
+  listFor(activity: any): CommandDefinition[];
+  find(name: string): CommandDefinition | undefined;
+  // Run the command in the text; unknown commands get a suggestion. Returns false when the text isn't a command.
+  handle(command: Omit<CommandContext, "args">, text: string): Promise<boolean>;
+}
+
+export const hasPermission = (activity: any, permission: CommandPermission): boolean => {
+  switch (permission) {
+    case "everyone":
+      return true;
+    case "organizer":
+      return isOrganizer(activity);
+    case "admin":
+      return isAdmin(activity);
+  }
+};
+
+export const isInScope = (activity: any, scope?: CommandScope): boolean => {
+  if (!scope) {
+    return true;
+  }
+  return isPersonalConversation(activity) === (scope === "personal");
+};
+
+// Helper function to find the command a mistyped name most likely meant, if any is close enough
+const suggestCommand = (name: string, commands: CommandDefinition[]): CommandDefinition | undefined => {
+  const prefixed = commands.find((command) => command.name.startsWith(name) || name.startsWith(command.name));
+  if (prefixed && name.length > 1) {
+    return prefixed;
+  }
+  const scored = commands
+    .map((command) => ({ command, distance: editDistance(name, command.name) }))
+    .sort((a, b) => a.distance - b.distance);
+  const best = scored[0];
+  return best && best.distance <= Math.max(2, Math.floor(best.command.name.length / 3)) ? best.command : undefined;
+};
+
+export const createCommandRegistry = (commands: CommandDefinition[]): CommandRegistry => {
+  const byName = new Map<string, CommandDefinition>();
+  for (const command of commands) {
+    if (!command.name.startsWith("/")) {
+      throw new Error(`Command names start with "/": ${command.name}`);
+    }
+    if (byName.has(command.name)) {
+      throw new Error(`Command ${command.name} is registered twice`);
+    }
+    byName.set(command.name, command);
+  }
+
+  const registry: CommandRegistry = {
+    list: () => [...byName.values()],
+
+    listFor: (activity) =>
+      registry
+        .list()
+        .filter((command) => hasPermission(activity, command.permission) && isInScope(activity, command.scope)),
+
+    find: (name) => byName.get(name.toLowerCase()),
+
+    handle: async (command, text) => {
+      const [name, ...args] = text.trim().split(/\s+/);
+      if (!name || !name.startsWith("/")) {
+        return false;
+      }
+
+      const definition = registry.find(name);
+      if (!definition) {
+        const suggestion = suggestCommand(name.toLowerCase(), registry.listFor(command.context.activity));
+        await command.context.send(
+          suggestion
+            ? t("commands.suggestion", { name, suggestion: suggestion.name })
+            : t("commands.unknown", { name })
+        );
+        return true;
+      }
+
+      if (!hasPermission(command.context.activity, definition.permission)) {
+        await command.context.send(
+          t(definition.permission === "admin" ? "commands.onlyAdmins" : "commands.onlyOrganizers", {
+            name: definition.name,
+          })
+        );
+        return true;
+      }
+
+      if (!isInScope(command.context.activity, definition.scope)) {
+        await command.context.send(
+          t(definition.scope === "personal" ? "commands.personalOnly" : "commands.groupOnly", { name: definition.name })
+        );
+        return true;
+      }
+
+      await definition.handler({ ...command, args });
+      return true;
+    },
+  };
+  return registry;
+};
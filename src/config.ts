@@ -0,0 +1,265 @@
+import { ManagedIdentityCredential } from "@azure/identity";
+import { TokenCredentials } from "@microsoft/teams.api";
+import type { StorageBackend } from "./storage";
+
+// How the bot authenticates with Bot Framework
+export type BotAuthType = "SingleTenant" | "MultiTenant" | "UserAssignedMsi";
+
+const AUTH_TYPES: BotAuthType[] = ["SingleTenant", "MultiTenant", "UserAssignedMsi"];
+const STORAGE_BACKENDS: StorageBackend[] = ["memory", "file"];
+const DEFAULT_RESTART_KEYWORDS = ["hi", "hello", "hey", "start", "restart", "begin"];
+const MIN_GROUP_SIZE = 2;
+const MAX_GROUP_SIZE = 6;
+
+export interface BotAuthConfig {
+  type: BotAuthType;
+  // Bot app id, or the client id of the managed identity for UserAssignedMsi; empty when running without credentials
+  clientId: string;
+  clientSecret?: string;
+  tenantId?: string;
+}
+
+export interface BotConfig {
+  auth: BotAuthConfig;
+  // AAD object ids of users allowed to run organizer commands
+  organizerIds: string[];
+  // AAD object ids of users allowed to run the diagnostics commands (/diag, /state, /runtime)
+  adminIds: string[];
+  storage: {
+    backend: StorageBackend;
+    // JSON file of the "file" backend
+    filePath: string;
+  };
+  // Questionnaire JSON to use instead of the bundled default
+  questionnaireFile?: string;
+  // Directory of questionnaire JSON files organizers can pick per event
+  questionnaireDir?: string;
+  // Event created when none exists yet
+  defaultEvent: {
+    name: string;
+    code: string;
+  };
+  // Messages that start a finished user over, in lower case
+  restartKeywords: string[];
+  pairing: {
+    // People per group (2 = pairs, 3 = triads); events can override it
+    groupSize: number;
+    // Rounds in which someone isn't grouped again with anyone they met; 0 allows repeats
+    noRepeatRounds: number;
+  };
+  // IANA time zone the times of round schedules are in, e.g. "Europe/Berlin"
+  scheduleTimeZone: string;
+  // Hours after a match is made that its members are asked how it went; 0 turns feedback requests off
+  feedbackDelayHours: number;
+  // Required to start conversations on the local Direct Line channel, when set
+  directLineSecret?: string;
+  // Serve the unauthenticated local endpoints (the /chat simulator), from LOCAL_DEV=true; never set it when deployed
+  localDev: boolean;
+  port: number;
+}
+
+export interface LoadConfigOptions {
+  // Hosts that talk to Bot Framework (CloudAdapter) can't work without credentials
+  requireCredentials?: boolean;
+}
+
+// Thrown when settings are missing or contradict each other; lists every problem at once
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n  - ${problems.join("\n  - ")}`);
+    this.name = "ConfigError";
+    this.problems = problems;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+// Whether a group size is one the bot supports
+export const isValidGroupSize = (size: number): boolean => {
+  return Number.isInteger(size) && size >= MIN_GROUP_SIZE && size <= MAX_GROUP_SIZE;
+};
+
+// Helper function to check a time zone name against the ones the runtime knows
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Helper function to read a comma-separated list (of ids, keywords, ...)
+const readList = (value?: string): string[] => {
+  return (value || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+};
+
+// Helper function to read a setting that has several accepted names; different values are a contradiction
+const readAlias = (env: Env, names: string[], problems: string[]): string | undefined => {
+  const set = names.filter((name) => env[name] !== undefined && env[name]!.trim() !== "");
+  const values = [...new Set(set.map((name) => env[name]!.trim()))];
+  if (values.length > 1) {
+    problems.push(`${set.join(", ")} are set to different values; set only one of them`);
+  }
+  return values[0];
+};
+
+// Read and validate the configuration from environment variables.
+// Accepted names: CLIENT_ID (or MicrosoftAppId), CLIENT_SECRET (or CLIENT_PASSWORD, MicrosoftAppPassword),
+// TENANT_ID (or MS_TENANT_ID, MicrosoftAppTenantId) and BOT_TYPE (or MicrosoftAppType).
+export const loadConfig = (env: Env = process.env, options: LoadConfigOptions = {}): BotConfig => {
+  const problems: string[] = [];
+
+  const clientId = readAlias(env, ["CLIENT_ID", "MicrosoftAppId"], problems);
+  const clientSecret = readAlias(env, ["CLIENT_SECRET", "CLIENT_PASSWORD", "MicrosoftAppPassword"], problems);
+  const tenantId = readAlias(env, ["TENANT_ID", "MS_TENANT_ID", "MicrosoftAppTenantId"], problems);
+  const botType = readAlias(env, ["BOT_TYPE", "MicrosoftAppType"], problems);
+
+  // Without BOT_TYPE: a tenant means SingleTenant, otherwise MultiTenant
+  const type = (botType || (tenantId ? "SingleTenant" : "MultiTenant")) as BotAuthType;
+  if (!AUTH_TYPES.includes(type)) {
+    problems.push(`BOT_TYPE "${botType}" is not supported (expected ${AUTH_TYPES.join(", ")})`);
+  }
+
+  const hasCredentials = !!(clientId || clientSecret || botType);
+  if (hasCredentials || options.requireCredentials) {
+    if (!clientId) {
+      problems.push(`CLIENT_ID is required for ${type} auth`);
+    }
+    if (type === "UserAssignedMsi") {
+      if (clientSecret) {
+        problems.push("CLIENT_SECRET is set, but UserAssignedMsi authenticates with the managed identity and no secret");
+      }
+      if (!tenantId) {
+        problems.push("TENANT_ID is required for UserAssignedMsi auth");
+      }
+    } else if (AUTH_TYPES.includes(type)) {
+      if (!clientSecret) {
+        problems.push(`CLIENT_SECRET is required for ${type} auth`);
+      }
+      if (type === "SingleTenant" && !tenantId) {
+        problems.push("TENANT_ID is required for SingleTenant auth");
+      }
+      if (type === "MultiTenant" && tenantId) {
+        problems.push("TENANT_ID is set, but MultiTenant bots accept every tenant; use BOT_TYPE=SingleTenant or drop it");
+      }
+    }
+  }
+
+  const backend = (env.STORAGE_BACKEND || "memory") as StorageBackend;
+  if (!STORAGE_BACKENDS.includes(backend)) {
+    problems.push(`STORAGE_BACKEND "${env.STORAGE_BACKEND}" is not supported (expected ${STORAGE_BACKENDS.join(" or ")})`);
+  }
+  if (env.STORAGE_FILE && backend !== "file") {
+    problems.push(`STORAGE_FILE is set, but STORAGE_BACKEND is "${backend}"; set STORAGE_BACKEND=file to use it`);
+  }
+
+  const groupSize = Number(env.GROUP_SIZE || 2);
+  if (!isValidGroupSize(groupSize)) {
+    problems.push(`GROUP_SIZE "${env.GROUP_SIZE}" must be a whole number from ${MIN_GROUP_SIZE} to ${MAX_GROUP_SIZE}`);
+  }
+  const noRepeatRounds = Number(env.NO_REPEAT_ROUNDS || 3);
+  if (!Number.isInteger(noRepeatRounds) || noRepeatRounds < 0) {
+    problems.push(`NO_REPEAT_ROUNDS "${env.NO_REPEAT_ROUNDS}" must be a whole number of 0 or more`);
+  }
+
+  const scheduleTimeZone = env.SCHEDULE_TIME_ZONE || "UTC";
+  if (!isValidTimeZone(scheduleTimeZone)) {
+    problems.push(`SCHEDULE_TIME_ZONE "${scheduleTimeZone}" is not a time zone (expected e.g. UTC or Europe/Berlin)`);
+  }
+
+  const feedbackDelayHours = Number(env.FEEDBACK_DELAY_HOURS || 24);
+  if (!Number.isFinite(feedbackDelayHours) || feedbackDelayHours < 0) {
+    problems.push(`FEEDBACK_DELAY_HOURS "${env.FEEDBACK_DELAY_HOURS}" must be a number of hours of 0 or more`);
+  }
+
+  const localDev = env.LOCAL_DEV === "true" || env.LOCAL_DEV === "1";
+  if (env.LOCAL_DEV && !["true", "1", "false", "0"].includes(env.LOCAL_DEV)) {
+    problems.push(`LOCAL_DEV "${env.LOCAL_DEV}" must be true or false`);
+  }
+
+  const port = Number(env.PORT || env.port || 3978);
+  if (!Number.isInteger(port) || port <= 0) {
+    problems.push(`PORT "${env.PORT || env.port}" is not a valid port number`);
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  const organizerIds = readList(env.ORGANIZER_IDS);
+  return {
+    auth: { type, clientId: clientId || "", clientSecret, tenantId },
+    organizerIds,
+    // Organizers are admins too unless ADMIN_IDS names the admins
+    adminIds: env.ADMIN_IDS ? readList(env.ADMIN_IDS) : organizerIds,
+    storage: {
+      backend,
+      filePath: env.STORAGE_FILE || ".data/hoogah-state.json",
+    },
+    questionnaireFile: env.QUESTIONNAIRE_FILE || undefined,
+    questionnaireDir: env.QUESTIONNAIRE_DIR || undefined,
+    defaultEvent: {
+      name: env.DEFAULT_EVENT_NAME || "Hoogah",
+      code: env.DEFAULT_EVENT_CODE || "HOOGAH",
+    },
+    restartKeywords: env.RESTART_KEYWORDS
+      ? readList(env.RESTART_KEYWORDS).map((keyword) => keyword.toLowerCase())
+      : DEFAULT_RESTART_KEYWORDS,
+    pairing: { groupSize, noRepeatRounds },
+    scheduleTimeZone,
+    feedbackDelayHours,
+    directLineSecret: env.DIRECTLINE_SECRET || undefined,
+    localDev,
+    port,
+  };
+};
+
+let cached: BotConfig | undefined;
+
+// The configuration of this process, loaded from the environment on first use
+export const getConfig = (): BotConfig => {
+  if (!cached) {
+    cached = loadConfig();
+  }
+  return cached;
+};
+
+// Forget the loaded configuration, so the next getConfig() reads the environment again (tests)
+export const resetConfig = () => {
+  cached = undefined;
+};
+
+// Set the MicrosoftApp* variables Bot Framework's CloudAdapter reads its credentials from
+export const applyBotFrameworkEnv = (auth: BotAuthConfig) => {
+  process.env.MicrosoftAppType = auth.type;
+  process.env.MicrosoftAppId = auth.clientId;
+  process.env.MicrosoftAppPassword = auth.clientSecret || "";
+  process.env.MicrosoftAppTenantId = auth.tenantId || "";
+};
+
+// Credentials for the Teams SDK App: a client secret, or tokens from the user-assigned managed identity
+export const createTeamsAppCredentials = (auth: BotAuthConfig): Record<string, any> => {
+  if (!auth.clientId) {
+    return {};
+  }
+  if (auth.type !== "UserAssignedMsi") {
+    return { clientId: auth.clientId, clientSecret: auth.clientSecret, tenantId: auth.tenantId };
+  }
+
+  const credential = new ManagedIdentityCredential({ clientId: auth.clientId });
+  const tokenCredentials: TokenCredentials = {
+    clientId: auth.clientId,
+    token: async (scope: string | string[], tenantId?: string): Promise<string> => {
+      const scopes = Array.isArray(scope) ? scope : [scope];
+      const tokenResponse = await credential.getToken(scopes, { tenantId: tenantId || auth.tenantId });
+      return tokenResponse.token;
+    },
+  };
+  return tokenCredentials;
+};
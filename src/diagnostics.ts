@@ -0,0 +1,59 @@
+import packageJson from "../package.json";
+import { CommandDefinition } from "./commands";
+import { getConfig } from "./config";
+import { getAppVersion, getUptimeSeconds } from "./health";
+import { getParticipant, getUserState } from "./state";
+import { StateStore } from "./storage";
+
+// Admin AAD object ids, from ADMIN_IDS (or ORGANIZER_IDS when that isn't set)
+export const isAdmin = (activity: any): boolean => {
+  const aadObjectId = activity.from?.aadObjectId;
+  return !!aadObjectId && getConfig().adminIds.includes(aadObjectId);
+};
+
+// Helper function to reply with a JSON value, formatted as code
+const sendJson = async (context: any, value: unknown) => {
+  await context.send({ type: "message", textFormat: "markdown", text: "```json\n" + JSON.stringify(value, null, 2) + "\n```" });
+};
+
+// What the bot stores for the admin's own conversation
+const describeState = async (store: StateStore, conversationId: string) => {
+  const user = await getUserState(store, conversationId);
+  const participant = user.eventId ? await getParticipant(store, user.eventId, conversationId) : undefined;
+  return { conversationId, user, participant };
+};
+
+const describeRuntime = () => {
+  const config = getConfig();
+  return {
+    version: getAppVersion(),
+    uptimeSeconds: getUptimeSeconds(),
+    nodeVersion: process.version,
+    sdkVersion: packageJson.dependencies["@microsoft/teams.apps"],
+    botbuilderVersion: packageJson.dependencies.botbuilder,
+    authType: config.auth.type,
+    storageBackend: config.storage.backend,
+  };
+};
+
+// Admin diagnostics commands, registered with the bot's command registry
+export const DIAGNOSTICS_COMMANDS: CommandDefinition[] = [
+  {
+    name: "/diag",
+    description: "Show the activity the bot received for this message.",
+    permission: "admin",
+    handler: ({ context }) => sendJson(context, context.activity),
+  },
+  {
+    name: "/state",
+    description: "Show what the bot stores for this conversation.",
+    permission: "admin",
+    handler: async ({ context, store }) => sendJson(context, await describeState(store, context.activity.conversation.id)),
+  },
+  {
+    name: "/runtime",
+    description: "Show versions, uptime, auth type and storage backend.",
+    permission: "admin",
+    handler: ({ context }) => sendJson(context, describeRuntime()),
+  },
+];
@@ -0,0 +1,311 @@
+// Local Direct Line v3-style channel: lets Web Chat clients and scripts talk to the bot without
+// Azure Bot Service. Conversations, their tokens and activities are kept in memory until the token expires.
+//
+//   POST /v3/directline/tokens/generate                      token for a new conversation
+//   POST /v3/directline/tokens/refresh                       fresh token for the same conversation
+//   POST /v3/directline/conversations                        start a conversation (or the one a token was made for)
+//   GET  /v3/directline/conversations/:id                    reconnect to a conversation
+//   POST /v3/directline/conversations/:id/activities         send an activity to the bot
+//   GET  /v3/directline/conversations/:id/activities?watermark=N   activities after the watermark
+import { timingSafeEqual } from "node:crypto";
+import { getConfig } from "./config";
+import { ProactiveSender } from "./notifier";
+import { TurnRunner } from "./simulator";
+
+// Service URL of Direct Line conversations; proactive messages to them are appended to the conversation
+export const DIRECTLINE_SERVICE_URL = "http://localhost/v3/directline/";
+
+const TOKEN_LIFETIME_SECONDS = 1800;
+
+const BOT_ACCOUNT = { id: "hoogah-bot", name: "Hoogah", role: "bot" };
+
+interface DirectLineConversation {
+  conversationId: string;
+  // The user's account id, assigned here; clients can't choose who they are
+  userId: string;
+  token: string;
+  expiresAt: number;
+  // Whether POST /conversations was called; tokens can be generated before that
+  started: boolean;
+  // Every activity in the conversation, from users and bot; a watermark is an index into this list
+  activities: any[];
+}
+
+export interface DirectLineRequest {
+  method: string;
+  // Path below /v3/directline, e.g. "/conversations/abc/activities"
+  path: string;
+  headers: Record<string, any>;
+  query: Record<string, any>;
+  body?: any;
+}
+
+export interface DirectLineResponse {
+  status: number;
+  body: any;
+}
+
+const conversations = new Map<string, DirectLineConversation>();
+
+const randomId = (length: number) => {
+  let id = "";
+  while (id.length < length) {
+    id += Math.random().toString(36).slice(2);
+  }
+  return id.slice(0, length);
+};
+
+const error = (status: number, code: string, message: string): DirectLineResponse => ({
+  status,
+  body: { error: { code, message } },
+});
+
+// Helper function to read the bearer credential of a request
+const getBearer = (headers: Record<string, any>): string | undefined => {
+  const header = headers.authorization || headers.Authorization;
+  const match = typeof header === "string" ? header.match(/^Bearer\s+(.+)$/i) : null;
+  return match ? match[1].trim() : undefined;
+};
+
+// Helper function to compare a credential with the secret in constant time, so response times don't give it away
+const matchesSecret = (credential: string | undefined, secret: string) => {
+  if (!credential) {
+    return false;
+  }
+  const given = Buffer.from(credential);
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// DIRECTLINE_SECRET protects the endpoint; without it only local development (LOCAL_DEV=true) lets anyone
+// start a conversation, and deployed hosts refuse every new one
+const isSecret = (credential?: string) => {
+  const { directLineSecret, localDev } = getConfig();
+  return directLineSecret ? matchesSecret(credential, directLineSecret) : localDev;
+};
+
+// Helper function to forget the conversations whose token expired, so they don't pile up in memory.
+// Clients keep a conversation by refreshing its token in time.
+const removeExpiredConversations = () => {
+  const now = Date.now();
+  for (const [conversationId, conversation] of conversations) {
+    if (conversation.expiresAt < now) {
+      conversations.delete(conversationId);
+    }
+  }
+};
+
+const findByToken = (token?: string): DirectLineConversation | undefined => {
+  if (!token) {
+    return undefined;
+  }
+  for (const conversation of conversations.values()) {
+    if (conversation.token === token) {
+      return conversation;
+    }
+  }
+  return undefined;
+};
+
+const issueToken = (conversation: DirectLineConversation) => {
+  conversation.token = randomId(48);
+  conversation.expiresAt = Date.now() + TOKEN_LIFETIME_SECONDS * 1000;
+};
+
+const createConversation = (): DirectLineConversation => {
+  const conversationId = randomId(22);
+  const conversation: DirectLineConversation = {
+    conversationId,
+    userId: `dl_${conversationId}`,
+    token: "",
+    expiresAt: 0,
+    started: false,
+    activities: [],
+  };
+  issueToken(conversation);
+  conversations.set(conversation.conversationId, conversation);
+  return conversation;
+};
+
+const describeConversation = (conversation: DirectLineConversation) => ({
+  conversationId: conversation.conversationId,
+  token: conversation.token,
+  expires_in: Math.max(0, Math.round((conversation.expiresAt - Date.now()) / 1000)),
+});
+
+// Helper function to add an activity to a conversation, giving it a Direct Line style id
+const appendActivity = (conversation: DirectLineConversation, activity: any): any => {
+  const stored = {
+    ...activity,
+    id: `${conversation.conversationId}|${String(conversation.activities.length).padStart(7, "0")}`,
+    timestamp: new Date().toISOString(),
+    channelId: "directline",
+    conversation: { id: conversation.conversationId },
+  };
+  conversation.activities.push(stored);
+  return stored;
+};
+
+// Helper function to check that a request may access a conversation (its token, or the secret)
+const authorize = (request: DirectLineRequest, conversationId: string): DirectLineConversation | DirectLineResponse => {
+  const conversation = conversations.get(conversationId);
+  if (!conversation) {
+    return error(404, "BadArgument", "Conversation not found");
+  }
+  const credential = getBearer(request.headers);
+  if (credential === conversation.token) {
+    return conversation;
+  }
+  const secret = getConfig().directLineSecret;
+  if (secret && matchesSecret(credential, secret)) {
+    return conversation;
+  }
+  return error(403, "BadArgument", "Token not valid for this conversation");
+};
+
+// Run a user activity through the bot and append the bot's replies to the conversation
+const postActivity = async (
+  runTurn: TurnRunner,
+  conversation: DirectLineConversation,
+  body: any
+): Promise<DirectLineResponse> => {
+  if (!body || typeof body.type !== "string") {
+    return error(400, "BadArgument", "An activity with a type is required");
+  }
+
+  // Only the display name is taken from the client; an aadObjectId it sends could claim an organizer's or admin's rights
+  const name = typeof body.from?.name === "string" ? body.from.name : undefined;
+  const incoming = appendActivity(conversation, {
+    ...body,
+    from: { id: conversation.userId, name, role: "user" },
+    recipient: BOT_ACCOUNT,
+    serviceUrl: DIRECTLINE_SERVICE_URL,
+  });
+  const reply = (activity: any) =>
+    appendActivity(conversation, { ...activity, from: BOT_ACCOUNT, recipient: incoming.from, replyToId: incoming.id });
+
+  const turnContext: any = {
+    activity: incoming,
+    sendActivity: async (response: any) => {
+      const activity = typeof response === "string" ? { type: "message", text: response } : response;
+      if (activity.type !== "invokeResponse") {
+        return { id: reply(activity).id };
+      }
+
+      // Direct Line has no invoke responses; show the updated card (or message) as a reply instead
+      const body = activity.value?.body;
+      if (body?.type === "application/vnd.microsoft.card.adaptive") {
+        reply({
+          type: "message",
+          attachments: [{ contentType: "application/vnd.microsoft.card.adaptive", content: body.value }],
+        });
+      } else if (body?.type === "application/vnd.microsoft.activity.message") {
+        reply({ type: "message", text: body.value });
+      }
+      return { id: incoming.id };
+    },
+  };
+  await runTurn(turnContext);
+
+  return { status: 200, body: { id: incoming.id } };
+};
+
+// Handle one Direct Line API request
+export const handleDirectLineRequest = async (
+  runTurn: TurnRunner,
+  request: DirectLineRequest
+): Promise<DirectLineResponse> => {
+  removeExpiredConversations();
+  const method = request.method.toUpperCase();
+  const segments = request.path.split("?")[0].split("/").filter(Boolean);
+  const credential = getBearer(request.headers);
+
+  if (segments[0] === "tokens") {
+    if (method === "POST" && segments[1] === "generate") {
+      if (!isSecret(credential)) {
+        return error(403, "BadArgument", "Secret not valid");
+      }
+      return { status: 200, body: describeConversation(createConversation()) };
+    }
+    if (method === "POST" && segments[1] === "refresh") {
+      const conversation = findByToken(credential);
+      if (!conversation) {
+        return error(403, "TokenExpired", "Token not valid or expired");
+      }
+      issueToken(conversation);
+      return { status: 200, body: describeConversation(conversation) };
+    }
+    return error(404, "BadArgument", "Unknown tokens operation");
+  }
+
+  if (segments[0] !== "conversations") {
+    return error(404, "BadArgument", "Unknown Direct Line operation");
+  }
+
+  // Start a conversation, either fresh (with the secret) or the one a generated token belongs to
+  if (segments.length === 1 && method === "POST") {
+    const generated = findByToken(credential);
+    if (!generated && !isSecret(credential)) {
+      return error(403, "BadArgument", "Secret or token not valid");
+    }
+    const conversation = generated || createConversation();
+    const isNew = !conversation.started;
+    conversation.started = true;
+    return { status: isNew ? 201 : 200, body: describeConversation(conversation) };
+  }
+
+  const access = authorize(request, segments[1] || "");
+  if (!("conversationId" in access)) {
+    return access;
+  }
+
+  if (segments.length === 2 && method === "GET") {
+    return { status: 200, body: describeConversation(access) };
+  }
+
+  if (segments[2] === "activities" && segments.length === 3) {
+    if (method === "POST") {
+      return postActivity(runTurn, access, request.body);
+    }
+    if (method === "GET") {
+      const watermark = Math.max(0, parseInt(String(request.query.watermark ?? "0"), 10) || 0);
+      return {
+        status: 200,
+        body: {
+          activities: access.activities.slice(watermark),
+          watermark: String(access.activities.length),
+        },
+      };
+    }
+  }
+
+  return error(404, "BadArgument", "Unknown conversation operation");
+};
+
+// Proactive sender that appends to Direct Line conversations and hands everything else to the host's sender
+export const createDirectLineSender = (fallback?: ProactiveSender): ProactiveSender => ({
+  send: async (reference, activity) => {
+    const conversation = conversations.get(reference.conversation.id);
+    if (reference.serviceUrl === DIRECTLINE_SERVICE_URL && conversation) {
+      appendActivity(conversation, { ...activity, from: BOT_ACCOUNT, recipient: reference.user });
+      return;
+    }
+    if (!fallback) {
+      throw new Error(`No proactive sender for ${reference.serviceUrl}`);
+    }
+    await fallback.send(reference, activity);
+  },
+  // Direct Line conversations are always personal, so only other channels can open one
+  createPersonalConversation: async (reference, user) => {
+    if (!fallback?.createPersonalConversation) {
+      throw new Error(`No proactive sender for ${reference.serviceUrl}`);
+    }
+    return fallback.createPersonalConversation(reference, user);
+  },
+  listMembers: async (reference) => {
+    if (!fallback?.listMembers) {
+      throw new Error(`No proactive sender for ${reference.serviceUrl}`);
+    }
+    return fallback.listMembers(reference);
+  },
+});
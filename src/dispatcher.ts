@@ -0,0 +1,76 @@
+// Routes incoming activities to the bot handlers registered for their type
+import { createLogger, withLogContext } from "./logger";
+import { countHandlerError } from "./metrics";
+
+const log = createLogger("dispatcher");
+
+export type DispatchedActivityType = "message" | "invoke" | "conversationUpdate" | "installationUpdate";
+
+// Response to an invoke activity, sent back as the HTTP response of the invoke
+export interface InvokeResponse {
+  status: number;
+  body?: any;
+}
+
+// What a handler gets for one incoming activity
+export interface ActivityContext {
+  activity: any;
+  // Reply in the conversation the activity came from; plain strings become text messages
+  send(activity: any): Promise<unknown>;
+}
+
+// Handlers of invoke activities may return the invoke response
+export type ActivityHandler = (context: ActivityContext) => Promise<InvokeResponse | void>;
+
+export interface Dispatcher {
+  // The handler's name (its function name by default) appears in the logs of the activities it handles
+  on(type: DispatchedActivityType, handler: ActivityHandler, name?: string): void;
+  // Whether any handler is registered for the type
+  handles(type: DispatchedActivityType): boolean;
+  // Run every handler registered for the activity's type, in registration order.
+  // Returns the first invoke response a handler gave.
+  dispatch(activity: any, send: (activity: any) => Promise<unknown>): Promise<InvokeResponse | undefined>;
+}
+
+export const createDispatcher = (): Dispatcher => {
+  const handlers = new Map<string, { name: string; handler: ActivityHandler }[]>();
+
+  return {
+    on: (type, handler, name) => {
+      const entry = { name: name || handler.name || type, handler };
+      handlers.set(type, [...(handlers.get(type) || []), entry]);
+    },
+
+    handles: (type) => (handlers.get(type) || []).length > 0,
+
+    dispatch: async (activity, send) => {
+      const selected = handlers.get(activity?.type) || [];
+      if (selected.length === 0) {
+        log.warn("No handlers for activity type", { type: activity?.type });
+        return undefined;
+      }
+
+      const context: ActivityContext = {
+        activity,
+        send: (response: any) => send(typeof response === "string" ? { type: "message", text: response } : response),
+      };
+      let invokeResponse: InvokeResponse | undefined;
+      for (const { name, handler } of selected) {
+        const result = await withLogContext({ handler: name }, async () => {
+          const startedAt = Date.now();
+          try {
+            const response = await handler(context);
+            log.info("Handler finished", { durationMs: Date.now() - startedAt });
+            return response;
+          } catch (err) {
+            countHandlerError(name);
+            log.error("Handler failed", { durationMs: Date.now() - startedAt, error: err });
+            throw err;
+          }
+        });
+        invokeResponse = invokeResponse || result || undefined;
+      }
+      return invokeResponse;
+    },
+  };
+};
@@ -0,0 +1,119 @@
+import { getConfig } from "./config";
+import { ConversationReference } from "./notifier";
+import { QuestionnaireDefinition } from "./questionnaire";
+import { StateStore } from "./storage";
+
+export type EventStatus = "open" | "closed";
+
+// Team channel or group chat a round was started in (see src/rounds.ts)
+export interface EventRound {
+  // Conversation id without the ";messageid=..." suffix of channel threads
+  conversationId: string;
+  // Where the pairs are posted when the round closes
+  reference: ConversationReference;
+  startedBy?: string;
+  // Personal conversation ids of the members the questionnaire was sent to
+  members: string[];
+}
+
+// A meetup, offsite or other occasion with its own pool of participants
+export interface HoogahEvent {
+  id: string;
+  name: string;
+  // Short code participants type to join the event
+  joinCode: string;
+  status: EventStatus;
+  createdAt: string;
+  // People per group, instead of GROUP_SIZE
+  groupSize?: number;
+  // Questions asked in this event, instead of the default questionnaire; kept with the event so later changes to
+  // the files don't affect people who already joined
+  questionnaire?: QuestionnaireDefinition;
+  // Set for rounds: only the invited members take part, and they are paired when the round closes
+  round?: EventRound;
+}
+
+const EVENT_PREFIX = "event/";
+
+// Join codes avoid characters that are easy to mix up (0/O, 1/I)
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export const normalizeJoinCode = (code: string): string => {
+  return code.trim().toUpperCase();
+};
+
+// Helper function to generate a join code that no existing event uses
+const generateJoinCode = (taken: Set<string>): string => {
+  let code = "";
+  do {
+    code = "";
+    for (let i = 0; i < 6; i++) {
+      code += JOIN_CODE_ALPHABET[Math.floor(Math.random() * JOIN_CODE_ALPHABET.length)];
+    }
+  } while (taken.has(code));
+  return code;
+};
+
+export const getEvent = async (store: StateStore, eventId: string): Promise<HoogahEvent | undefined> => {
+  return store.get<HoogahEvent>(EVENT_PREFIX + eventId);
+};
+
+export const saveEvent = async (store: StateStore, event: HoogahEvent) => {
+  await store.set(EVENT_PREFIX + event.id, event);
+};
+
+// List all events, oldest first
+export const listEvents = async (store: StateStore): Promise<HoogahEvent[]> => {
+  const events: HoogahEvent[] = [];
+  for (const key of await store.keys(EVENT_PREFIX)) {
+    const event = await store.get<HoogahEvent>(key);
+    if (event) {
+      events.push(event);
+    }
+  }
+  return events.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const listOpenEvents = async (store: StateStore): Promise<HoogahEvent[]> => {
+  return (await listEvents(store)).filter((event) => event.status === "open");
+};
+
+// Open events anyone can pick on the welcome card; rounds are only offered to the members they were sent to
+export const listPublicEvents = async (store: StateStore): Promise<HoogahEvent[]> => {
+  return (await listOpenEvents(store)).filter((event) => !event.round);
+};
+
+export const findEventByCode = async (store: StateStore, joinCode: string): Promise<HoogahEvent | undefined> => {
+  const code = normalizeJoinCode(joinCode);
+  return (await listEvents(store)).find((event) => event.joinCode === code);
+};
+
+// Create a new open event; a join code is generated unless one is given
+export const createEvent = async (store: StateStore, name: string, joinCode?: string): Promise<HoogahEvent> => {
+  const events = await listEvents(store);
+  const taken = new Set(events.map((event) => event.joinCode));
+  const code = joinCode ? normalizeJoinCode(joinCode) : generateJoinCode(taken);
+  if (taken.has(code)) {
+    throw new Error(`Join code ${code} is already used by another event`);
+  }
+
+  const event: HoogahEvent = {
+    id: `event-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    joinCode: code,
+    status: "open",
+    createdAt: new Date().toISOString(),
+  };
+  await saveEvent(store, event);
+  return event;
+};
+
+// Make sure there is always something to join: create the default event when no events exist yet.
+// Its name and code come from DEFAULT_EVENT_NAME / DEFAULT_EVENT_CODE.
+export const ensureDefaultEvent = async (store: StateStore) => {
+  if ((await store.keys(EVENT_PREFIX)).length > 0) {
+    return;
+  }
+  const { name, code } = getConfig().defaultEvent;
+  await createEvent(store, name, code);
+};
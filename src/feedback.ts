@@ -0,0 +1,163 @@
+// Feedback on matches: some time after a group is made (FEEDBACK_DELAY_HOURS), each member is asked whether they
+// met and how it was. Answers are kept with the match, organizers see them all together with /feedback, and a low
+// rating keeps the rater from being grouped with the same people again.
+import { FeedbackAction } from "./cardActions";
+import {
+  buildExpiredCard,
+  buildFeedbackCard,
+  buildFeedbackThanksCard,
+  createCardAttachment,
+  SummaryFact,
+  withNotice,
+} from "./cards";
+import { getClock } from "./clock";
+import { CommandDefinition } from "./commands";
+import { getConfig } from "./config";
+import { findEventByCode } from "./events";
+import { getUserLanguage, t, withLanguage } from "./i18n";
+import { createLogger } from "./logger";
+import { sendProactive } from "./notifier";
+import { sendSummary } from "./organizer";
+import { blockPartners, getMatch, getUserState, listMatches, Match, MatchFeedback, saveMatch } from "./state";
+import { StateStore } from "./storage";
+
+const log = createLogger("feedback");
+
+// Ratings at or below this keep the rater from being grouped with the same people again
+export const LOW_RATING = 2;
+
+// Matches whose feedback time passed longer ago than this aren't asked about (e.g. ones made before an outage)
+const FEEDBACK_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// How many comments /feedback shows, newest first
+const SHOWN_COMMENTS = 5;
+
+// Helper function to name everyone in a match except one member
+const describePartners = async (store: StateStore, match: Match, conversationId: string): Promise<string> => {
+  const names: string[] = [];
+  for (const partnerId of match.members.filter((id) => id !== conversationId)) {
+    names.push((await getUserState(store, partnerId)).name || t("match.yourMatch"));
+  }
+  return names.join(" & ");
+};
+
+export const createFeedbackCard = async (store: StateStore, conversationId: string, match: Match) => {
+  return buildFeedbackCard(match.id, await describePartners(store, match, conversationId));
+};
+
+// Ask the members of every match whose feedback time has come how it went; returns how many matches were asked
+export const sendDueFeedbackRequests = async (store: StateStore, now: Date): Promise<number> => {
+  const delayHours = getConfig().feedbackDelayHours;
+  if (delayHours <= 0) {
+    return 0;
+  }
+  let asked = 0;
+  for (const match of await listMatches(store)) {
+    const dueAt = new Date(match.createdAt).getTime() + delayHours * 60 * 60 * 1000;
+    if (match.feedbackRequestedAt || dueAt > now.getTime() || now.getTime() - dueAt > FEEDBACK_WINDOW_MS) {
+      continue;
+    }
+    // Marked first, so nobody is asked twice when sending fails halfway
+    match.feedbackRequestedAt = now.toISOString();
+    await saveMatch(store, match);
+    for (const conversationId of match.members) {
+      const state = await getUserState(store, conversationId);
+      const card = await withLanguage(getUserLanguage(state), () => createFeedbackCard(store, conversationId, match));
+      await sendProactive(state.reference, { type: "message", attachments: [createCardAttachment(card)] });
+    }
+    asked++;
+  }
+  if (asked > 0) {
+    log.info("Feedback requested", { matches: asked });
+  }
+  return asked;
+};
+
+// Record a member's answer to the feedback request and return the card that replaces it
+export const handleFeedbackAction = async (
+  store: StateStore,
+  conversationId: string,
+  action: FeedbackAction
+): Promise<any> => {
+  const match = await getMatch(store, action.matchId);
+  if (!match || !match.members.includes(conversationId)) {
+    return buildExpiredCard(t("feedback.groupGone"));
+  }
+  if (match.feedback?.[conversationId]) {
+    return buildFeedbackThanksCard([t("feedback.alreadySent")]);
+  }
+  const met = action.met === "yes";
+  if (met && !action.rating) {
+    return withNotice(await createFeedbackCard(store, conversationId, match), t("feedback.pickRating"));
+  }
+
+  const feedback: MatchFeedback = {
+    met,
+    rating: met ? Number(action.rating) : undefined,
+    comment: action.comment?.trim() || undefined,
+    submittedAt: getClock().now().toISOString(),
+  };
+  match.feedback = { ...(match.feedback || {}), [conversationId]: feedback };
+  await saveMatch(store, match);
+  log.info("Feedback received", { matchId: match.id, met, rating: feedback.rating });
+
+  const partners = await describePartners(store, match, conversationId);
+  if (!met) {
+    return buildFeedbackThanksCard([t("feedback.notMet", { partners })]);
+  }
+  if (feedback.rating <= LOW_RATING) {
+    await blockPartners(store, conversationId, match.members.filter((id) => id !== conversationId));
+    return buildFeedbackThanksCard([t("feedback.lowRating", { partners })]);
+  }
+  return buildFeedbackThanksCard([t("feedback.met")]);
+};
+
+// Aggregate feedback of a set of matches, for /feedback
+export const summarizeFeedback = (matches: Match[]): { facts: SummaryFact[]; comments: string[] } => {
+  const answers = matches.flatMap((match) => Object.values(match.feedback || {}));
+  const ratings = answers.filter((answer) => answer.rating).map((answer) => answer.rating);
+  const average = ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+  const comments = answers
+    .filter((answer) => answer.comment)
+    .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt))
+    .slice(0, SHOWN_COMMENTS)
+    .map((answer) => `“${answer.comment}” (${answer.rating ? `${answer.rating}/5` : "didn't meet"})`);
+  return {
+    facts: [
+      { title: "Groups", value: String(matches.length) },
+      { title: "Asked", value: String(matches.filter((match) => match.feedbackRequestedAt).length) },
+      { title: "Answers", value: String(answers.length) },
+      { title: "Met", value: String(answers.filter((answer) => answer.met).length) },
+      { title: "Average rating", value: ratings.length > 0 ? `${average.toFixed(1)}/5` : "–" },
+      { title: "Low ratings", value: String(ratings.filter((rating) => rating <= LOW_RATING).length) },
+    ],
+    comments,
+  };
+};
+
+const handleFeedbackCommand = async (context: any, store: StateStore, args: string[]) => {
+  const code = args[0];
+  const event = code ? await findEventByCode(store, code) : undefined;
+  if (code && !event) {
+    await context.send(`No event has the join code "${code}".`);
+    return;
+  }
+  const { facts, comments } = summarizeFeedback(await listMatches(store, event?.id));
+  await sendSummary(
+    context,
+    event ? `Feedback on ${event.name}` : "Feedback on all events",
+    facts,
+    comments.length > 0 ? comments : ["No comments yet."]
+  );
+};
+
+// Feedback commands, registered with the bot's command registry
+export const FEEDBACK_COMMANDS: CommandDefinition[] = [
+  {
+    name: "/feedback",
+    usage: "/feedback [code]",
+    description: "Show how groups rated their meetings, for one event or all of them.",
+    permission: "organizer",
+    handler: ({ context, store, args }) => handleFeedbackCommand(context, store, args),
+  },
+];
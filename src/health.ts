@@ -0,0 +1,120 @@
+// Readiness behind the health endpoints: whether the bot is configured, can use its storage and has
+// its handlers registered, plus its version, uptime and how much state it holds
+import packageJson from "../package.json";
+import { ConfigError, loadConfig, LoadConfigOptions } from "./config";
+import { DispatchedActivityType, Dispatcher } from "./dispatcher";
+import { listOpenEvents } from "./events";
+import { countConversations, listParticipants } from "./state";
+import { StateStore } from "./storage";
+
+// Activity types the bot can't work without a handler for
+const REQUIRED_ACTIVITY_TYPES: DispatchedActivityType[] = ["message", "invoke"];
+
+const HEALTH_KEY_PREFIX = "health/";
+
+export interface ReadinessCheck {
+  ok: boolean;
+  problems?: string[];
+}
+
+export interface HealthReport {
+  status: "ready" | "not ready";
+  version: string;
+  uptimeSeconds: number;
+  checks: {
+    config: ReadinessCheck;
+    storage: ReadinessCheck;
+    router: ReadinessCheck;
+  };
+  // Left out when storage can't be read
+  counts?: {
+    conversations: number;
+    // Participants of open events
+    participants: number;
+  };
+}
+
+export const getAppVersion = (): string => packageJson.version;
+
+export const getUptimeSeconds = (): number => Math.round(process.uptime());
+
+// HTTP status the health endpoints answer with: 503 until every check passes
+export const getHealthStatus = (report: HealthReport): number => (report.status === "ready" ? 200 : 503);
+
+// Helper function to list the problems behind an error; a ConfigError names every bad setting
+const describeFailure = (err: any): string[] => {
+  return err instanceof ConfigError ? err.problems : [err?.message || String(err)];
+};
+
+const checkConfig = (options: LoadConfigOptions): ReadinessCheck => {
+  try {
+    loadConfig(process.env, options);
+    return { ok: true };
+  } catch (err: any) {
+    return { ok: false, problems: describeFailure(err) };
+  }
+};
+
+// Helper function to write, read back and remove a throwaway key
+const checkStorage = async (store: StateStore): Promise<ReadinessCheck> => {
+  const key = `${HEALTH_KEY_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const written = { checkedAt: new Date().toISOString() };
+  try {
+    await store.set(key, written);
+    const read = await store.get<typeof written>(key);
+    await store.delete(key);
+    if (read?.checkedAt !== written.checkedAt) {
+      return { ok: false, problems: ["a value written to storage could not be read back"] };
+    }
+    return { ok: true };
+  } catch (err: any) {
+    return { ok: false, problems: [`storage failed: ${err?.message || err}`] };
+  }
+};
+
+const checkRouter = (dispatcher: Dispatcher): ReadinessCheck => {
+  const missing = REQUIRED_ACTIVITY_TYPES.filter((type) => !dispatcher.handles(type));
+  return missing.length === 0 ? { ok: true } : { ok: false, problems: missing.map((type) => `no ${type} handler registered`) };
+};
+
+const countState = async (store: StateStore) => {
+  let participants = 0;
+  for (const event of await listOpenEvents(store)) {
+    participants += (await listParticipants(store, event.id)).length;
+  }
+  return { conversations: await countConversations(store), participants };
+};
+
+// Report for a host whose bot couldn't even be loaded (e.g. storage needs settings that are invalid), so the
+// health endpoint still answers with the reason instead of failing itself
+export const createLoadFailureReport = (err: any): HealthReport => {
+  const notChecked = { ok: false, problems: ["not checked, the bot could not be loaded"] };
+  return {
+    status: "not ready",
+    version: getAppVersion(),
+    uptimeSeconds: getUptimeSeconds(),
+    checks: { config: { ok: false, problems: describeFailure(err) }, storage: notChecked, router: notChecked },
+  };
+};
+
+// Run every readiness check; the bot is ready when all of them pass
+export const checkReadiness = async (
+  store: StateStore,
+  dispatcher: Dispatcher,
+  options: LoadConfigOptions = {}
+): Promise<HealthReport> => {
+  const checks = {
+    config: checkConfig(options),
+    storage: await checkStorage(store),
+    router: checkRouter(dispatcher),
+  };
+  const ready = Object.values(checks).every((check) => check.ok);
+
+  return {
+    status: ready ? "ready" : "not ready",
+    version: getAppVersion(),
+    uptimeSeconds: getUptimeSeconds(),
+    checks,
+    counts: checks.storage.ok ? await countState(store) : undefined,
+  };
+};
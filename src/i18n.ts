@@ -0,0 +1,63 @@
+// Translations of the texts users see. Strings live in one bundle per language (src/locales/*.json); the language
+// of a turn is the user's /language choice, or else the locale Teams sends with every activity. Strings missing
+// from a bundle fall back to English. Like the log context, the language is set once per turn (withLanguage) and
+// read wherever a text is built (t), so cards don't need it passed through every call.
+import { AsyncLocalStorage } from "node:async_hooks";
+import de from "./locales/de.json";
+import en from "./locales/en.json";
+import ja from "./locales/ja.json";
+
+export type MessageKey = keyof typeof en;
+
+export type Language = "en" | "de" | "ja";
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+// Each language in its own words, as shown to users
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  de: "Deutsch",
+  ja: "日本語",
+};
+
+const BUNDLES: Record<Language, Partial<Record<MessageKey, string>>> = { en, de, ja };
+
+const languages = new AsyncLocalStorage<Language>();
+
+export const isLanguage = (value?: string): value is Language => !!value && Object.hasOwn(BUNDLES, value);
+
+// Language of a Teams locale like "de-DE"; English for languages without a bundle
+export const resolveLanguage = (locale?: string): Language => {
+  const code = (locale || "").split(/[-_]/)[0].toLowerCase();
+  return isLanguage(code) ? code : DEFAULT_LANGUAGE;
+};
+
+// Language to talk to a user in: their own choice, else the locale of the activity (or of their latest one)
+export const getUserLanguage = (state: { language?: Language; locale?: string }, activity?: any): Language => {
+  return state.language || resolveLanguage(activity?.locale || state.locale);
+};
+
+export const getLanguage = (): Language => languages.getStore() || DEFAULT_LANGUAGE;
+
+// Run fn in a language; every text it builds, also asynchronously, is in that language
+export const withLanguage = <T>(language: Language, fn: () => T): T => {
+  return languages.run(language, fn);
+};
+
+// Helper function to replace {placeholder} tokens with values
+const fill = (text: string, values: Record<string, string | number>): string => {
+  return text.replace(/\{(\w+)\}/g, (token, name) => (name in values ? String(values[name]) : token));
+};
+
+export const translate = (
+  language: Language,
+  key: MessageKey,
+  values: Record<string, string | number> = {}
+): string => {
+  return fill(BUNDLES[language][key] ?? en[key] ?? key, values);
+};
+
+// Text of a key in the language of the current turn
+export const t = (key: MessageKey, values?: Record<string, string | number>): string => {
+  return translate(getLanguage(), key, values);
+};
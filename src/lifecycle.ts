@@ -0,0 +1,67 @@
+// Installs and uninstalls: telling from conversationUpdate and installationUpdate activities whether the bot
+// or other members were added or removed, and forgetting a conversation once the bot is removed from it
+import { listEvents } from "./events";
+import { dissolveMatch } from "./pairing";
+import {
+  deleteBlockedPartners,
+  deleteMatchHistory,
+  deleteParticipant,
+  deleteProcessedActivities,
+  deleteUserState,
+  getMatch,
+  getParticipant,
+} from "./state";
+import { StateStore } from "./storage";
+
+export const isPersonalConversation = (activity: any): boolean => {
+  return !activity.conversation?.conversationType || activity.conversation.conversationType === "personal";
+};
+
+// Whether the bot itself was just installed in (added to) the conversation; app upgrades don't count
+export const isBotAdded = (activity: any): boolean => {
+  if (activity.type === "installationUpdate") {
+    return activity.action === "add";
+  }
+  return (activity.membersAdded || []).some((member: any) => member.id === activity.recipient?.id);
+};
+
+// Whether the bot was uninstalled from (removed from) the conversation; app upgrades don't count
+export const isBotRemoved = (activity: any): boolean => {
+  if (activity.type === "installationUpdate") {
+    return activity.action === "remove";
+  }
+  return (activity.membersRemoved || []).some((member: any) => member.id === activity.recipient?.id);
+};
+
+// Members other than the bot who joined the conversation
+export const getAddedMembers = (activity: any): any[] => {
+  if (activity.type !== "conversationUpdate") {
+    return [];
+  }
+  return (activity.membersAdded || []).filter((member: any) => member.id !== activity.recipient?.id);
+};
+
+// Remove everything stored for a conversation: its user state, its answers in every event, its match
+// history, the people it blocked and the deduplication history. Its pairs are dissolved, so partners go back into the waiting pool.
+export const purgeConversation = async (store: StateStore, conversationId: string) => {
+  let participants = 0;
+  let matches = 0;
+  for (const event of await listEvents(store)) {
+    const participant = await getParticipant(store, event.id, conversationId);
+    if (!participant.sessionId && Object.keys(participant.answers).length === 0) {
+      continue;
+    }
+    const match = participant.matchId ? await getMatch(store, participant.matchId) : undefined;
+    if (match) {
+      await dissolveMatch(store, match);
+      matches++;
+    }
+    await deleteParticipant(store, event.id, conversationId);
+    participants++;
+  }
+  await deleteUserState(store, conversationId);
+  await deleteMatchHistory(store, conversationId);
+  await deleteBlockedPartners(store, conversationId);
+  await deleteProcessedActivities(store, conversationId);
+  return { participants, matches };
+};
@@ -0,0 +1,68 @@
+// Structured logging: every line is one JSON object carrying the context of the activity being handled
+// (correlation id, conversation id, handler), so the lines of one request can be found together.
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+export type LogLevel = "info" | "warn" | "error";
+
+// Fields added to every line logged while an activity (or HTTP request) is handled
+export interface LogContext {
+  correlationId?: string;
+  conversationId?: string;
+  activityId?: string;
+  activityType?: string;
+  // Bot handler that is running, as registered with the dispatcher
+  handler?: string;
+  [field: string]: unknown;
+}
+
+export interface Logger {
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+const contexts = new AsyncLocalStorage<LogContext>();
+
+export const createCorrelationId = (): string => randomUUID();
+
+export const getLogContext = (): LogContext => contexts.getStore() || {};
+
+// Run fn with fields added to the log context; everything it logs, also asynchronously, carries them
+export const withLogContext = <T>(fields: LogContext, fn: () => T): T => {
+  return contexts.run({ ...getLogContext(), ...fields }, fn);
+};
+
+// Helper function to make values JSON friendly; errors keep their message and stack
+const serialize = (fields: Record<string, unknown>) => {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    result[key] = value instanceof Error ? { message: value.message, name: value.name, stack: value.stack } : value;
+  }
+  return result;
+};
+
+const write = (level: LogLevel, scope: string, message: string, fields: Record<string, unknown> = {}) => {
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    scope,
+    message,
+    ...getLogContext(),
+    ...serialize(fields),
+  });
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+};
+
+// Logger for one part of the bot, e.g. createLogger("pipeline")
+export const createLogger = (scope: string): Logger => ({
+  info: (message, fields) => write("info", scope, message, fields),
+  warn: (message, fields) => write("warn", scope, message, fields),
+  error: (message, fields) => write("error", scope, message, fields),
+});
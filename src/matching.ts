@@ -0,0 +1,220 @@
+// Compatibility scoring and partner selection for finished questionnaires
+import { Answers, QuestionDefinition, QuestionnaireDefinition } from "./questionnaire";
+
+export interface Candidate {
+  id: string;
+  answers: Answers;
+  // Ids of people this candidate met in recent rounds and shouldn't be grouped with again
+  avoid?: string[];
+}
+
+export interface MatchResult<T extends Candidate> {
+  partners: T[];
+  score: number;
+}
+
+// Helper function to compare two answers to the same question (0 = no overlap, 1 = identical)
+const answerSimilarity = (question: QuestionDefinition, a?: string, b?: string): number => {
+  if (!a || !b) {
+    return 0;
+  }
+
+  // Ordered options still count as partially compatible when they are close on the scale
+  if (question.ordered) {
+    const i = question.options.indexOf(a);
+    const j = question.options.indexOf(b);
+    if (i !== -1 && j !== -1) {
+      return 1 - Math.abs(i - j) / (question.options.length - 1);
+    }
+  }
+
+  return a === b ? 1 : 0;
+};
+
+// Minimum score two participants need; defaults to a third of the maximum possible score
+export const getMinScore = (questionnaire: QuestionnaireDefinition): number => {
+  if (questionnaire.minScore !== undefined) {
+    return questionnaire.minScore;
+  }
+  const maxScore = questionnaire.questions.reduce((sum, question) => sum + question.weight, 0);
+  return maxScore / 3;
+};
+
+// Score how compatible two sets of answers are
+export const scoreCompatibility = (questionnaire: QuestionnaireDefinition, a: Answers, b: Answers): number => {
+  let score = 0;
+  for (const question of questionnaire.questions) {
+    score += question.weight * answerSimilarity(question, a[question.id], b[question.id]);
+  }
+  return score;
+};
+
+// Helper function to score two candidates; undefined when they can't be grouped
+// (below the threshold, or they met in a recent round)
+const scorePair = (questionnaire: QuestionnaireDefinition, minScore: number, a: Candidate, b: Candidate) => {
+  if (a.id === b.id || a.avoid?.includes(b.id) || b.avoid?.includes(a.id)) {
+    return undefined;
+  }
+  const score = scoreCompatibility(questionnaire, a.answers, b.answers);
+  return score >= minScore ? score : undefined;
+};
+
+// Average score of every pair within a group, so groups of any size are scored like pairs
+export const scoreGroup = (questionnaire: QuestionnaireDefinition, members: Candidate[]): number => {
+  let total = 0;
+  let count = 0;
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      total += scoreCompatibility(questionnaire, members[i].answers, members[j].answers);
+      count++;
+    }
+  }
+  return count > 0 ? total / count : 0;
+};
+
+// Helper function to pick who fits best with everyone already in a group: each member must be able to be
+// grouped with them, and the highest total score wins. Ties go to whoever is earliest in the pool.
+const findBestAddition = <T extends Candidate>(
+  questionnaire: QuestionnaireDefinition,
+  minScore: number,
+  members: Candidate[],
+  pool: T[],
+  isAvailable: (candidate: T) => boolean = () => true
+): T | undefined => {
+  let best: T | undefined;
+  let bestTotal = -1;
+
+  for (const other of pool) {
+    if (!isAvailable(other) || members.some((member) => member.id === other.id)) {
+      continue;
+    }
+    let total = 0;
+    const fits = members.every((member) => {
+      const score = scorePair(questionnaire, minScore, member, other);
+      total += score || 0;
+      return score !== undefined;
+    });
+    if (fits && total > bestTotal) {
+      best = other;
+      bestTotal = total;
+    }
+  }
+
+  return best;
+};
+
+// Pick the most compatible partners from the pool to make a group of groupSize with the candidate,
+// if enough of them clear the threshold. Ties go to whoever is earliest in the pool, so people who waited
+// longer are grouped first.
+export const findBestGroup = <T extends Candidate>(
+  questionnaire: QuestionnaireDefinition,
+  candidate: Candidate,
+  pool: T[],
+  groupSize = 2
+): MatchResult<T> | undefined => {
+  const minScore = getMinScore(questionnaire);
+  const partners: T[] = [];
+
+  while (partners.length < groupSize - 1) {
+    const next = findBestAddition(questionnaire, minScore, [candidate, ...partners], pool);
+    if (!next) {
+      return undefined;
+    }
+    partners.push(next);
+  }
+
+  return { partners, score: scoreGroup(questionnaire, [candidate, ...partners]) };
+};
+
+// Pick the group a leftover candidate fits best, among those with room for one more: they must be able to
+// be grouped with every member. Smaller groups go first, so extra members are spread over the groups.
+export const findGroupToJoin = <G extends { members: Candidate[] }>(
+  questionnaire: QuestionnaireDefinition,
+  candidate: Candidate,
+  groups: G[],
+  maxSize: number
+): G | undefined => {
+  const minScore = getMinScore(questionnaire);
+  let best: { group: G; score: number } | undefined;
+
+  for (const group of groups) {
+    if (group.members.length >= maxSize) {
+      continue;
+    }
+    if (!findBestAddition(questionnaire, minScore, group.members, [candidate])) {
+      continue;
+    }
+    const score = scoreGroup(questionnaire, [...group.members, candidate]);
+    const isBetter =
+      !best ||
+      group.members.length < best.group.members.length ||
+      (group.members.length === best.group.members.length && score > best.score);
+    if (isBetter) {
+      best = { group, score };
+    }
+  }
+
+  return best?.group;
+};
+
+export interface PairingResult<T extends Candidate> {
+  groups: Array<{ members: T[]; score: number }>;
+  unmatched: T[];
+}
+
+// Split a whole pool into groups of groupSize at once. The most compatible pairs seed the groups, and each
+// group is filled with whoever fits best with all of its members; when nobody else fits, it stays smaller.
+// Someone left over because the count doesn't divide evenly joins the group they fit best (one extra member
+// at most), so nobody is left alone just for being the odd one out. Anyone who fits nowhere stays unmatched.
+export const pairPool = <T extends Candidate>(
+  questionnaire: QuestionnaireDefinition,
+  pool: T[],
+  groupSize = 2
+): PairingResult<T> => {
+  const minScore = getMinScore(questionnaire);
+  const options: Array<{ a: T; b: T; score: number }> = [];
+
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      const score = scorePair(questionnaire, minScore, pool[i], pool[j]);
+      if (score !== undefined) {
+        options.push({ a: pool[i], b: pool[j], score });
+      }
+    }
+  }
+
+  // Stable sort keeps pool order for equal scores, so earlier participants still win ties
+  options.sort((x, y) => y.score - x.score);
+
+  const taken = new Set<string>();
+  const isAvailable = (candidate: T) => !taken.has(candidate.id);
+  const groups: Array<{ members: T[] }> = [];
+  for (const option of options) {
+    if (taken.has(option.a.id) || taken.has(option.b.id)) {
+      continue;
+    }
+    const members = [option.a, option.b];
+    while (members.length < groupSize) {
+      const next = findBestAddition(questionnaire, minScore, members, pool, isAvailable);
+      if (!next) {
+        break;
+      }
+      members.push(next);
+    }
+    members.forEach((member) => taken.add(member.id));
+    groups.push({ members });
+  }
+
+  for (const candidate of pool.filter(isAvailable)) {
+    const group = findGroupToJoin(questionnaire, candidate, groups, groupSize + 1);
+    if (group) {
+      group.members.push(candidate);
+      taken.add(candidate.id);
+    }
+  }
+
+  return {
+    groups: groups.map((group) => ({ members: group.members, score: scoreGroup(questionnaire, group.members) })),
+    unmatched: pool.filter(isAvailable),
+  };
+};
@@ -0,0 +1,96 @@
+// Counters of this process, exposed in Prometheus text format at /api/metrics.
+// The funnel shows how far people get: welcome shown, started (joined an event), each question, matched.
+// Counters live in memory, so they restart at zero with the process (or serverless instance).
+
+interface Counter {
+  help: string;
+  // Name of the one label that tells the series of a counter apart
+  label: string;
+  values: Map<string, number>;
+}
+
+const counters: Record<string, Counter> = {
+  hoogah_funnel_total: {
+    help: "Times a participant reached each step of the funnel",
+    label: "step",
+    values: new Map(),
+  },
+  hoogah_activities_total: {
+    help: "Incoming activities by type",
+    label: "type",
+    values: new Map(),
+  },
+  hoogah_handler_errors_total: {
+    help: "Activities whose handler failed, by handler",
+    label: "handler",
+    values: new Map(),
+  },
+};
+
+const increment = (counter: Counter, labelValue: string, amount = 1) => {
+  counter.values.set(labelValue, (counter.values.get(labelValue) || 0) + amount);
+};
+
+// List the funnel steps in order, so steps nobody reached yet are reported as 0
+export const defineFunnelSteps = (steps: string[]) => {
+  const funnel = counters.hoogah_funnel_total;
+  const previous = funnel.values;
+  funnel.values = new Map(steps.map((step) => [step, previous.get(step) || 0]));
+  for (const [step, value] of previous) {
+    if (!funnel.values.has(step)) {
+      funnel.values.set(step, value);
+    }
+  }
+};
+
+// Count participants reaching a funnel step ("welcome_shown", "started", a question id or "matched")
+export const countFunnelStep = (step: string, amount = 1) => {
+  increment(counters.hoogah_funnel_total, step, amount);
+};
+
+// Activity types counted by name; the type comes from the client, so any other one counts as "other" instead of
+// adding a series per made-up type
+const COUNTED_ACTIVITY_TYPES = [
+  "message",
+  "invoke",
+  "conversationUpdate",
+  "installationUpdate",
+  "messageReaction",
+  "messageUpdate",
+  "messageDelete",
+  "typing",
+  "event",
+  "endOfConversation",
+];
+
+export const countActivity = (type?: string) => {
+  const label = !type ? "unknown" : COUNTED_ACTIVITY_TYPES.includes(type) ? type : "other";
+  increment(counters.hoogah_activities_total, label);
+};
+
+export const countHandlerError = (handler: string) => {
+  increment(counters.hoogah_handler_errors_total, handler);
+};
+
+// Set every counter back to zero, keeping the series already reported (tests)
+export const resetMetrics = () => {
+  for (const counter of Object.values(counters)) {
+    for (const labelValue of counter.values.keys()) {
+      counter.values.set(labelValue, 0);
+    }
+  }
+};
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+// All counters in Prometheus text exposition format
+export const renderMetrics = (): string => {
+  const lines: string[] = [];
+  for (const [name, counter] of Object.entries(counters)) {
+    lines.push(`# HELP ${name} ${counter.help}`, `# TYPE ${name} counter`);
+    for (const [labelValue, value] of counter.values) {
+      lines.push(`${name}{${counter.label}="${escapeLabel(labelValue)}"} ${value}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+};
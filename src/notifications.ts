@@ -0,0 +1,98 @@
+import { buildFinalMatchCard, createCardAttachment, forUser, getInitials } from "./cards";
+import { getLanguage, getUserLanguage, t, withLanguage } from "./i18n";
+import { listConversationMembers, sendProactive } from "./notifier";
+import { getOptionLabel, getQuestionText, QuestionnaireDefinition } from "./questionnaire";
+import { getParticipant, getUserState, Match, saveUserState, UserState } from "./state";
+import { StateStore } from "./storage";
+
+// Helper function to find a partner's UPN for the chat deep link. Messages don't carry it, so the roster of
+// their personal chat is read once and the UPN kept with their state.
+const lookUpUpn = async (store: StateStore, conversationId: string, state: UserState): Promise<string | undefined> => {
+  if (state.upn || !state.reference) {
+    return state.upn;
+  }
+  const members = await listConversationMembers(state.reference);
+  const member = members?.find(
+    (m) => (state.aadObjectId && m.aadObjectId === state.aadObjectId) || m.id === state.reference?.user?.id
+  );
+  if (member?.userPrincipalName) {
+    state.upn = member.userPrincipalName;
+    await saveUserState(store, conversationId, state);
+  }
+  return state.upn;
+};
+
+// Helper function to get the id a chat deep link opens a chat with: the UPN, or the AAD object id as an org
+// user id ("8:orgid:<id>"). Users known only by a conversation (e.g. on Direct Line) can't be chatted with.
+const getChatId = async (store: StateStore, conversationId: string, state: UserState): Promise<string | undefined> => {
+  const upn = await lookUpUpn(store, conversationId, state);
+  if (upn) {
+    return upn;
+  }
+  return state.aadObjectId ? `8:orgid:${state.aadObjectId}` : undefined;
+};
+
+// Helper function to list the answers every member of a match gave alike, labelled in the current language
+const findSharedAnswers = async (store: StateStore, questionnaire: QuestionnaireDefinition, match: Match) => {
+  const participants = await Promise.all(match.members.map((id) => getParticipant(store, match.eventId, id)));
+  const shared: { question: string; answer: string }[] = [];
+  for (const question of questionnaire.questions) {
+    const answer = participants[0]?.answers[question.id];
+    if (answer && participants.every((participant) => participant.answers[question.id] === answer)) {
+      shared.push({
+        question: getQuestionText(question, getLanguage()),
+        answer: getOptionLabel(question, answer, getLanguage()),
+      });
+    }
+  }
+  return shared;
+};
+
+// Helper function to build the final card for one member of a match, naming everyone else in the group
+export const createMatchCard = async (
+  store: StateStore,
+  questionnaire: QuestionnaireDefinition,
+  conversationId: string,
+  match: Match
+) => {
+  const people: { name: string; initials: string }[] = [];
+  const chatIds: string[] = [];
+  for (const partnerId of match.members.filter((id) => id !== conversationId)) {
+    const partner = await getUserState(store, partnerId);
+    const name = partner.name || t("match.yourMatch");
+    people.push({ name, initials: getInitials(partner.name || "?") });
+    const chatId = await getChatId(store, partnerId, partner);
+    if (chatId) {
+      chatIds.push(chatId);
+    }
+  }
+  return buildFinalMatchCard({
+    name: people.map((person) => person.name).join(" & "),
+    people,
+    chatIds,
+    sharedAnswers: await findSharedAnswers(store, questionnaire, match),
+  });
+};
+
+// Proactively send the match card to every member of a new match, in their language, except the one
+// whose turn is being handled (they get the card as a direct reply)
+export const notifyMatch = async (
+  store: StateStore,
+  questionnaire: QuestionnaireDefinition,
+  match: Match,
+  skipConversationId?: string
+) => {
+  for (const conversationId of match.members) {
+    if (conversationId === skipConversationId) {
+      continue;
+    }
+    const state = await getUserState(store, conversationId);
+    const card = await withLanguage(getUserLanguage(state), () =>
+      createMatchCard(store, questionnaire, conversationId, match)
+    );
+    await sendProactive(state.reference, {
+      type: "message",
+      attachments: [createCardAttachment(forUser(card, state.reference?.user?.id))],
+    });
+  }
+};
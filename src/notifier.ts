@@ -0,0 +1,154 @@
+// Proactive messaging: reaching a conversation outside of the turn that is currently being handled
+import { createLogger } from "./logger";
+
+const log = createLogger("notifier");
+
+// Enough of a Bot Framework conversation reference to continue the conversation later
+export interface ConversationReference {
+  activityId?: string;
+  user?: any;
+  bot?: any;
+  conversation: { id: string; [key: string]: any };
+  channelId: string;
+  serviceUrl: string;
+  locale?: string;
+}
+
+// Transport for proactive messages; each host registers the one matching its adapter
+export interface ProactiveSender {
+  send(reference: ConversationReference, activity: any): Promise<void>;
+  // Open (or find) the personal chat with a user met in a team or group conversation
+  createPersonalConversation?(reference: ConversationReference, user: any): Promise<ConversationReference>;
+  // Read the members (roster) of a team or group conversation
+  listMembers?(reference: ConversationReference): Promise<any[]>;
+}
+
+let sender: ProactiveSender | undefined;
+
+export const setProactiveSender = (proactiveSender: ProactiveSender | undefined) => {
+  sender = proactiveSender;
+};
+
+// Build the reference needed to message this conversation again later
+export const getConversationReference = (activity: any): ConversationReference | undefined => {
+  if (!activity?.conversation?.id || !activity.serviceUrl) {
+    return undefined;
+  }
+  return {
+    activityId: activity.id,
+    user: activity.from,
+    bot: activity.recipient,
+    conversation: activity.conversation,
+    channelId: activity.channelId,
+    serviceUrl: activity.serviceUrl,
+    locale: activity.locale,
+  };
+};
+
+// Build the reference of a personal conversation created with a user, next to a team or group conversation
+export const createPersonalReference = (
+  reference: ConversationReference,
+  user: any,
+  conversationId: string
+): ConversationReference => ({
+  user,
+  bot: reference.bot,
+  conversation: { id: conversationId, conversationType: "personal", tenantId: reference.conversation.tenantId },
+  channelId: reference.channelId,
+  serviceUrl: reference.serviceUrl,
+  locale: reference.locale,
+});
+
+// Proactive sender backed by a Bot Framework CloudAdapter (used by api/messages.ts and index.js)
+export const createCloudAdapterSender = (adapter: any, appId: string): ProactiveSender => ({
+  send: async (reference, activity) => {
+    await adapter.continueConversationAsync(appId, reference, async (turnContext: any) => {
+      await turnContext.sendActivity(activity);
+    });
+  },
+  createPersonalConversation: async (reference, user) => {
+    const tenantId = reference.conversation.tenantId;
+    let conversationId = "";
+    await adapter.createConversationAsync(
+      appId,
+      reference.channelId,
+      reference.serviceUrl,
+      null,
+      { isGroup: false, bot: reference.bot, members: [user], tenantId, channelData: { tenant: { id: tenantId } } },
+      async (turnContext: any) => {
+        conversationId = turnContext.activity.conversation.id;
+      }
+    );
+    return createPersonalReference(reference, user, conversationId);
+  },
+  listMembers: async (reference) => {
+    const members: any[] = [];
+    await adapter.continueConversationAsync(appId, reference, async (turnContext: any) => {
+      // The connector client the adapter set up for this turn
+      const client = turnContext.turnState.get(turnContext.adapter.ConnectorClientKey);
+      let continuationToken: string | undefined;
+      do {
+        const page = await client.conversations.getConversationPagedMembers(
+          reference.conversation.id,
+          500,
+          continuationToken
+        );
+        members.push(...(page.members || []));
+        continuationToken = page.continuationToken;
+      } while (continuationToken);
+    });
+    return members;
+  },
+});
+
+// Open the personal chat with a user of a team or group conversation, so sendProactive can reach them;
+// returns undefined when it could not be opened
+export const openPersonalConversation = async (
+  reference: ConversationReference | undefined,
+  user: any
+): Promise<ConversationReference | undefined> => {
+  if (!reference || !sender?.createPersonalConversation) {
+    log.warn("Cannot open a personal chat from this conversation", { target: reference?.conversation.id });
+    return undefined;
+  }
+  try {
+    return await sender.createPersonalConversation(reference, user);
+  } catch (err: any) {
+    log.error("Opening a personal chat failed", { target: reference.conversation.id, error: err });
+    return undefined;
+  }
+};
+
+// Members of a team or group conversation other than the bot; returns undefined when they could not be read
+export const listConversationMembers = async (reference: ConversationReference): Promise<any[] | undefined> => {
+  if (!sender?.listMembers) {
+    log.warn("Cannot read the members of this conversation", { target: reference.conversation.id });
+    return undefined;
+  }
+  try {
+    const members = await sender.listMembers(reference);
+    return members.filter((member) => member.id !== reference.bot?.id);
+  } catch (err: any) {
+    log.error("Reading the conversation members failed", { target: reference.conversation.id, error: err });
+    return undefined;
+  }
+};
+
+// Send an activity to a conversation; returns false when it could not be delivered
+export const sendProactive = async (reference: ConversationReference | undefined, activity: any): Promise<boolean> => {
+  if (!reference) {
+    log.warn("No conversation reference stored, cannot notify");
+    return false;
+  }
+  if (!sender) {
+    log.warn("No proactive sender registered, cannot notify", { target: reference.conversation.id });
+    return false;
+  }
+  try {
+    await sender.send(reference, { type: "message", ...activity });
+    return true;
+  } catch (err: any) {
+    log.error("Proactive send failed", { target: reference.conversation.id, error: err });
+    return false;
+  }
+};
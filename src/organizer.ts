@@ -0,0 +1,405 @@
+import { buildSummaryCard, createCardAttachment, SummaryFact } from "./cards";
+import { CommandDefinition } from "./commands";
+import { getConfig, isValidGroupSize } from "./config";
+import {
+  createEvent,
+  findEventByCode,
+  getEvent,
+  HoogahEvent,
+  listEvents,
+  listPublicEvents,
+  saveEvent,
+} from "./events";
+import { notifyMatch } from "./notifications";
+import { dissolveMatch, getGroupSize, pairEvent } from "./pairing";
+import {
+  getEventQuestionnaire,
+  isComplete,
+  listQuestionnaires,
+  parseQuestionnaire,
+  QuestionnaireDefinition,
+} from "./questionnaire";
+import {
+  deleteMatch,
+  deleteParticipant,
+  describeMembers,
+  forgetMatchHistory,
+  getMatch,
+  getUserState,
+  listMatches,
+  listParticipants,
+  Participant,
+  saveUserState,
+} from "./state";
+import { StateStore } from "./storage";
+
+// Organizer AAD object ids, from ORGANIZER_IDS (comma-separated)
+export const getOrganizerIds = (): string[] => {
+  return getConfig().organizerIds;
+};
+
+export const isOrganizer = (activity: any): boolean => {
+  const aadObjectId = activity.from?.aadObjectId;
+  return !!aadObjectId && getOrganizerIds().includes(aadObjectId);
+};
+
+// Helper function to reply with a summary card; the other command modules reply with it too
+export const sendSummary = async (context: any, title: string, facts: SummaryFact[], lines: string[] = []) => {
+  await context.send({
+    type: "message",
+    attachments: [createCardAttachment(buildSummaryCard(title, facts, lines))],
+  });
+};
+
+// Helper function to find the event a command targets: by join code, or the newest open event.
+// Rounds are only picked by code; they are closed with /round close.
+const resolveEvent = async (store: StateStore, code?: string): Promise<HoogahEvent | undefined> => {
+  if (code) {
+    return findEventByCode(store, code);
+  }
+  const openEvents = await listPublicEvents(store);
+  return openEvents[openEvents.length - 1];
+};
+
+
+const eventFacts = (event: HoogahEvent): SummaryFact[] => [
+  { title: "Event", value: event.name },
+  { title: "Join code", value: event.joinCode },
+  { title: "Status", value: event.status },
+  { title: "Group size", value: String(getGroupSize(event)) },
+  { title: "Questionnaire", value: describeQuestionnaire(getEventQuestionnaire(event)) },
+];
+
+const describeQuestionnaire = (questionnaire: QuestionnaireDefinition): string => {
+  return `${questionnaire.id} (${questionnaire.questions.length} questions)`;
+};
+
+// Helper function to find the questionnaire an organizer means: pasted JSON, or the id of one in QUESTIONNAIRE_DIR
+const readQuestionnaireArgument = (text: string): QuestionnaireDefinition => {
+  if (text.startsWith("{")) {
+    return parseQuestionnaire(text);
+  }
+  const questionnaires = listQuestionnaires();
+  const questionnaire = questionnaires.find((candidate) => candidate.id === text);
+  if (!questionnaire) {
+    const ids = questionnaires.map((candidate) => candidate.id).join(", ");
+    throw new Error(`There is no questionnaire "${text}" (available: ${ids}).`);
+  }
+  return questionnaire;
+};
+
+// Helper function to take a "--name value" option out of command arguments; values of several words
+// (count) are joined with spaces
+export const takeOption = (args: string[], name: string, count = 1): { value?: string; rest: string[] } => {
+  const index = args.indexOf(name);
+  if (index < 0) {
+    return { rest: args };
+  }
+  const value = args.slice(index + 1, index + 1 + count).join(" ");
+  return { value: value || undefined, rest: [...args.slice(0, index), ...args.slice(index + 1 + count)] };
+};
+
+// Helper function to read a --size option; returns an error message for sizes the bot doesn't support
+export const readGroupSize = (value?: string): { groupSize?: number; error?: string } => {
+  if (value === undefined) {
+    return {};
+  }
+  const groupSize = Number(value);
+  return isValidGroupSize(groupSize) ? { groupSize } : { error: `"${value}" is not a group size I support.` };
+};
+
+const handleEventCommand = async (context: any, store: StateStore, args: string[]) => {
+  const [action, ...rest] = args;
+
+  switch (action) {
+    case "create": {
+      // /event create <name> [--code <CODE>] [--size <N>]
+      const code = takeOption(rest, "--code");
+      const size = takeOption(code.rest, "--size");
+      const name = size.rest.join(" ").trim();
+      if (!name) {
+        await context.send("Usage: /event create <name> [--code <CODE>] [--size <N>]");
+        return;
+      }
+      const { groupSize, error } = readGroupSize(size.value);
+      if (error) {
+        await context.send(error);
+        return;
+      }
+      try {
+        const event = await createEvent(store, name, code.value);
+        if (groupSize) {
+          event.groupSize = groupSize;
+          await saveEvent(store, event);
+        }
+        await sendSummary(context, "Event created", eventFacts(event), [
+          `Participants can join with the code **${event.joinCode}**.`,
+        ]);
+      } catch (err: any) {
+        await context.send(err?.message || "Could not create the event.");
+      }
+      return;
+    }
+
+    case "open":
+    case "close": {
+      // /event open <code> | /event close [code]; closed events are never the newest open event, so reopening
+      // needs the code
+      if (action === "open" && !rest[0]) {
+        await context.send("Usage: /event open <code>");
+        return;
+      }
+      const event = rest[0] ? await findEventByCode(store, rest[0]) : await resolveEvent(store);
+      if (!event) {
+        await context.send(rest[0] ? `No event has the join code "${rest[0]}".` : "There is no open event.");
+        return;
+      }
+      event.status = action === "open" ? "open" : "closed";
+      await saveEvent(store, event);
+      await sendSummary(context, action === "open" ? "Event reopened" : "Event closed", eventFacts(event));
+      return;
+    }
+
+    case "questionnaire": {
+      // /event questionnaire <code> [<id> | <questionnaire JSON>]
+      const [code, ...definition] = rest;
+      const event = code ? await findEventByCode(store, code) : undefined;
+      if (!event) {
+        await context.send(
+          code ? `No event has the join code "${code}".` : "Usage: /event questionnaire <code> [<id> | <JSON>]"
+        );
+        return;
+      }
+      const text = definition.join(" ").trim();
+      if (!text) {
+        const questionnaire = getEventQuestionnaire(event);
+        await sendSummary(
+          context,
+          `Questionnaire of ${event.name}`,
+          questionnaire.questions.map((question, index) => ({
+            title: `${index + 1}. ${question.id}`,
+            value: `${question.text} (${question.options.join(" / ")})`,
+          }))
+        );
+        return;
+      }
+
+      // Answers belong to the questions they were given for, so the questions can only change before anyone joins
+      const participants = await listParticipants(store, event.id);
+      if (participants.length > 0) {
+        await context.send(
+          `People already joined ${event.name}. ` +
+            `Reset it with /event reset ${event.joinCode} before changing its questions.`
+        );
+        return;
+      }
+      try {
+        event.questionnaire = readQuestionnaireArgument(text);
+      } catch (err: any) {
+        await context.send(err?.message || "Could not read the questionnaire.");
+        return;
+      }
+      await saveEvent(store, event);
+      await sendSummary(context, "Questionnaire changed", eventFacts(event));
+      return;
+    }
+
+    case "list": {
+      const events = await listEvents(store);
+      await sendSummary(
+        context,
+        "Events",
+        events.map((event) => ({ title: event.name, value: `${event.joinCode} (${event.status})` })),
+        events.length === 0 ? ["No events yet."] : []
+      );
+      return;
+    }
+
+    case "reset": {
+      // /event reset [code] - wipe all answers and pairs of an event
+      const event = await resolveEvent(store, rest[0]);
+      if (!event) {
+        await context.send(rest[0] ? `No event has the join code "${rest[0]}".` : "There is no open event.");
+        return;
+      }
+      const participants = await listParticipants(store, event.id);
+      for (const participant of participants) {
+        await deleteParticipant(store, event.id, participant.conversationId);
+        const state = await getUserState(store, participant.conversationId);
+        if (state.eventId === event.id) {
+          delete state.eventId;
+          state.hasStarted = false;
+          await saveUserState(store, participant.conversationId, state);
+        }
+      }
+      const matches = await listMatches(store, event.id);
+      for (const match of matches) {
+        // Wiped pairs don't count as having met, so their members may be grouped again
+        await forgetMatchHistory(store, match);
+        await deleteMatch(store, match.id);
+      }
+      await sendSummary(context, "Event reset", [
+        ...eventFacts(event),
+        { title: "Participants removed", value: String(participants.length) },
+        { title: "Pairs removed", value: String(matches.length) },
+      ]);
+      return;
+    }
+
+    default:
+      await context.send("Usage: /event create|open|close|list|reset|questionnaire");
+  }
+};
+
+const handlePairCommand = async (context: any, store: StateStore, args: string[]) => {
+  // /pair now [code]
+  if (args[0] !== "now") {
+    await context.send("Usage: /pair now [code]");
+    return;
+  }
+  const event = await resolveEvent(store, args[1]);
+  if (!event) {
+    await context.send(args[1] ? `No event has the join code "${args[1]}".` : "There is no open event.");
+    return;
+  }
+
+  const questionnaire = getEventQuestionnaire(event);
+  const { matches, joined, unmatched } = await pairEvent(store, questionnaire, event.id);
+  const lines: string[] = [];
+  for (const match of matches) {
+    await notifyMatch(store, questionnaire, match);
+    lines.push(`• ${await describeMembers(store, match.members)}`);
+  }
+  for (const match of joined) {
+    await notifyMatch(store, questionnaire, match);
+    lines.push(`• ${await describeMembers(store, match.members)} (joined an earlier group)`);
+  }
+  if (unmatched.length > 0) {
+    lines.push(`Still waiting: ${await describeMembers(store, unmatched.map((p) => p.conversationId))}`);
+  }
+  await sendSummary(
+    context,
+    "Pairing round complete",
+    [
+      { title: "Event", value: event.name },
+      { title: "New groups", value: String(matches.length) },
+      { title: "Unmatched", value: String(unmatched.length) },
+    ],
+    lines
+  );
+};
+
+const handleParticipantsCommand = async (context: any, store: StateStore, args: string[]) => {
+  // /participants [code]
+  const event = await resolveEvent(store, args[0]);
+  if (!event) {
+    await context.send(args[0] ? `No event has the join code "${args[0]}".` : "There is no open event.");
+    return;
+  }
+
+  const questionnaire = getEventQuestionnaire(event);
+  const participants = await listParticipants(store, event.id);
+  const facts: SummaryFact[] = [];
+  for (const participant of participants) {
+    const name = (await getUserState(store, participant.conversationId)).name || participant.conversationId;
+    facts.push({ title: name, value: await describeProgress(store, questionnaire, participant) });
+  }
+  await sendSummary(
+    context,
+    `Participants of ${event.name} (${participants.length})`,
+    facts,
+    participants.length === 0 ? ["Nobody has joined yet."] : []
+  );
+};
+
+// Helper function to describe where a participant is in the flow
+const describeProgress = async (
+  store: StateStore,
+  questionnaire: QuestionnaireDefinition,
+  participant: Participant
+): Promise<string> => {
+  if (participant.matchId) {
+    const match = await getMatch(store, participant.matchId);
+    const partners = (match?.members || []).filter((id) => id !== participant.conversationId);
+    return `paired with ${await describeMembers(store, partners)}`;
+  }
+  if (isComplete(questionnaire, participant.answers)) {
+    return participant.confirmedAt ? "waiting for a match" : "reviewing answers";
+  }
+  const answered = questionnaire.questions.filter((q) => participant.answers[q.id]).length;
+  return `answered ${answered}/${questionnaire.questions.length}`;
+};
+
+const handleUnpairCommand = async (context: any, store: StateStore, args: string[]) => {
+  // /unpair <user> - by display name, AAD object id or conversation id
+  const query = args.join(" ").trim().toLowerCase();
+  if (!query) {
+    await context.send("Usage: /unpair <user>");
+    return;
+  }
+
+  const found: Participant[] = [];
+  for (const event of await listEvents(store)) {
+    for (const participant of await listParticipants(store, event.id)) {
+      if (!participant.matchId) {
+        continue;
+      }
+      const state = await getUserState(store, participant.conversationId);
+      const keys = [state.name, state.chatId, participant.conversationId].map((key) => (key || "").toLowerCase());
+      if (keys.includes(query)) {
+        found.push(participant);
+      }
+    }
+  }
+
+  if (found.length === 0) {
+    await context.send(`Nobody called "${args.join(" ")}" is currently paired.`);
+    return;
+  }
+  if (found.length > 1) {
+    await context.send(`"${args.join(" ")}" matches ${found.length} paired participants; use their AAD object id instead.`);
+    return;
+  }
+
+  const match = await getMatch(store, found[0].matchId as string);
+  if (match) {
+    await dissolveMatch(store, match);
+  }
+  const event = await getEvent(store, found[0].eventId);
+  await sendSummary(context, "Pair dissolved", [
+    { title: "Event", value: event?.name || found[0].eventId },
+    { title: "Members", value: await describeMembers(store, match?.members || [found[0].conversationId]) },
+  ], ["Everyone in the group is back in the waiting pool."]);
+};
+
+// Organizer commands, registered with the bot's command registry
+export const ORGANIZER_COMMANDS: CommandDefinition[] = [
+  {
+    name: "/event",
+    usage: "/event create|open|close|list|reset|questionnaire",
+    description: "Create, reopen, close, list or reset events, or change an event's questions.",
+    permission: "organizer",
+    handler: ({ context, store, args }) => handleEventCommand(context, store, [args[0]?.toLowerCase(), ...args.slice(1)]),
+  },
+  {
+    name: "/pair",
+    usage: "/pair now [code]",
+    description: "Group everyone who confirmed their answers and is still waiting.",
+    permission: "organizer",
+    handler: ({ context, store, args }) => handlePairCommand(context, store, [args[0]?.toLowerCase(), ...args.slice(1)]),
+  },
+  {
+    name: "/participants",
+    usage: "/participants [code]",
+    description: "Show each participant's progress.",
+    permission: "organizer",
+    handler: ({ context, store, args }) => handleParticipantsCommand(context, store, args),
+  },
+  {
+    name: "/unpair",
+    usage: "/unpair <user>",
+    description: "Dissolve a user's pair, by display name or AAD object id.",
+    permission: "organizer",
+    handler: ({ context, store, args }) => handleUnpairCommand(context, store, args),
+  },
+];
@@ -0,0 +1,199 @@
+import { getClock } from "./clock";
+import { getConfig } from "./config";
+import { getEvent, HoogahEvent } from "./events";
+import { Candidate, findBestGroup, findGroupToJoin, pairPool } from "./matching";
+import { countFunnelStep } from "./metrics";
+import { isComplete, QuestionnaireDefinition } from "./questionnaire";
+import {
+  deleteMatch,
+  forgetMatchHistory,
+  getBlockedPartners,
+  getMatch,
+  getParticipant,
+  getRecentPartners,
+  listMatches,
+  listParticipants,
+  Match,
+  Participant,
+  recordMatchHistory,
+  saveMatch,
+  saveParticipant,
+} from "./state";
+import { StateStore } from "./storage";
+
+// People per group in an event (or a round schedule): its own group size, or GROUP_SIZE
+export const getGroupSize = (event?: Pick<HoogahEvent, "groupSize">): number => {
+  return event?.groupSize || getConfig().pairing.groupSize;
+};
+
+// Helper function to turn a participant into a matching candidate that avoids the people it met in the
+// last NO_REPEAT_ROUNDS groups and those it rated poorly
+const toCandidate = async (store: StateStore, participant: Participant) => ({
+  id: participant.conversationId,
+  answers: participant.answers,
+  avoid: [
+    ...(await getRecentPartners(store, participant.conversationId, getConfig().pairing.noRepeatRounds)),
+    ...(await getBlockedPartners(store, participant.conversationId)),
+  ],
+  participant,
+});
+
+// Whether a participant answered everything and confirmed their answers
+export const isReadyToMatch = (questionnaire: QuestionnaireDefinition, participant: Participant): boolean => {
+  return !!participant.confirmedAt && isComplete(questionnaire, participant.answers);
+};
+
+// Confirmed participants of an event who have no partner yet, longest-waiting first
+export const listWaitingParticipants = async (
+  store: StateStore,
+  questionnaire: QuestionnaireDefinition,
+  eventId: string
+): Promise<Participant[]> => {
+  return (await listParticipants(store, eventId))
+    .filter((participant) => isReadyToMatch(questionnaire, participant) && !participant.matchId)
+    .sort((a, b) => (a.confirmedAt || "").localeCompare(b.confirmedAt || ""));
+};
+
+// Record a new match and point every member at it
+export const createMatch = async (
+  store: StateStore,
+  eventId: string,
+  members: string[],
+  score: number
+): Promise<Match> => {
+  const match: Match = {
+    id: `match-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    eventId,
+    members,
+    score,
+    createdAt: getClock().now().toISOString(),
+  };
+  await saveMatch(store, match);
+  await recordMatchHistory(store, match);
+  countFunnelStep("matched", members.length);
+
+  for (const conversationId of members) {
+    const participant = await getParticipant(store, eventId, conversationId);
+    participant.matchId = match.id;
+    await saveParticipant(store, participant);
+  }
+  return match;
+};
+
+// Undo a match, sending its members back into the waiting pool
+export const dissolveMatch = async (store: StateStore, match: Match) => {
+  for (const conversationId of match.members) {
+    const participant = await getParticipant(store, match.eventId, conversationId);
+    if (participant.matchId === match.id) {
+      delete participant.matchId;
+      await saveParticipant(store, participant);
+    }
+  }
+  await forgetMatchHistory(store, match);
+  await deleteMatch(store, match.id);
+};
+
+// Group a confirmed participant with the most compatible waiting participants of the same event,
+// once enough of them are waiting to fill a group
+export const matchParticipant = async (
+  store: StateStore,
+  questionnaire: QuestionnaireDefinition,
+  participant: Participant
+): Promise<Match | undefined> => {
+  if (participant.matchId) {
+    const existing = await getMatch(store, participant.matchId);
+    if (existing) {
+      return existing;
+    }
+  }
+  if (!isReadyToMatch(questionnaire, participant)) {
+    return undefined;
+  }
+
+  const pool = await listWaitingParticipants(store, questionnaire, participant.eventId);
+  const candidates = [];
+  for (const other of pool) {
+    candidates.push(await toCandidate(store, other));
+  }
+  const event = await getEvent(store, participant.eventId);
+  const result = findBestGroup(questionnaire, await toCandidate(store, participant), candidates, getGroupSize(event));
+  if (!result) {
+    return undefined;
+  }
+
+  const match = await createMatch(
+    store,
+    participant.eventId,
+    [participant.conversationId, ...result.partners.map((partner) => partner.id)],
+    result.score
+  );
+  participant.matchId = match.id;
+  return match;
+};
+
+// Helper function to add a leftover participant to a group formed earlier in the event, if they fit one
+const joinExistingGroup = async (
+  store: StateStore,
+  questionnaire: QuestionnaireDefinition,
+  candidate: Candidate & { participant: Participant },
+  groups: Array<{ match: Match; members: Candidate[] }>,
+  groupSize: number
+): Promise<Match | undefined> => {
+  const group = findGroupToJoin(questionnaire, candidate, groups, groupSize + 1);
+  if (!group) {
+    return undefined;
+  }
+  group.members.push(candidate);
+  group.match.members.push(candidate.id);
+  await saveMatch(store, group.match);
+  await recordMatchHistory(store, group.match);
+  countFunnelStep("matched");
+
+  candidate.participant.matchId = group.match.id;
+  await saveParticipant(store, candidate.participant);
+  return group.match;
+};
+
+// Group everyone still waiting in an event at once. Leftovers who fit no new group may join one formed
+// earlier in the event (returned as joined), e.g. the odd one out after everyone else was paired on arrival.
+export const pairEvent = async (
+  store: StateStore,
+  questionnaire: QuestionnaireDefinition,
+  eventId: string
+): Promise<{ matches: Match[]; joined: Match[]; unmatched: Participant[] }> => {
+  const groupSize = getGroupSize(await getEvent(store, eventId));
+  const earlier = await listMatches(store, eventId);
+  const candidates = [];
+  for (const participant of await listWaitingParticipants(store, questionnaire, eventId)) {
+    candidates.push(await toCandidate(store, participant));
+  }
+  const result = pairPool(questionnaire, candidates, groupSize);
+
+  const matches: Match[] = [];
+  for (const group of result.groups) {
+    matches.push(await createMatch(store, eventId, group.members.map((member) => member.id), group.score));
+  }
+
+  const joined: Match[] = [];
+  const unmatched: Participant[] = [];
+  if (result.unmatched.length > 0) {
+    const groups = [];
+    for (const match of earlier) {
+      const members = [];
+      for (const conversationId of match.members) {
+        members.push(await toCandidate(store, await getParticipant(store, eventId, conversationId)));
+      }
+      groups.push({ match, members });
+    }
+    for (const candidate of result.unmatched) {
+      const match = await joinExistingGroup(store, questionnaire, candidate, groups, groupSize);
+      if (!match) {
+        unmatched.push(candidate.participant);
+      } else if (!joined.includes(match)) {
+        joined.push(match);
+      }
+    }
+  }
+
+  return { matches, joined, unmatched };
+};
@@ -0,0 +1,74 @@
+// The one entry point into the bot. Every host is a thin adapter over it:
+// - src/app.ts: Teams SDK http plugin (/api/messages), the /chat simulator and the local Direct Line channel
+// - api/messages.ts and index.js: Bot Framework CloudAdapter (Vercel and Express)
+// - api/chat.ts and api/directline.ts: the simulator and Direct Line channel on Vercel
+//
+// Hosts with a Bot Framework TurnContext call runTeamsAppWithTurnContext; others call processActivity
+// with the activity and a function that delivers replies.
+import { TurnContext } from "botbuilder";
+import { setupBot } from "./bot";
+import { LoadConfigOptions } from "./config";
+import { createDispatcher, InvokeResponse } from "./dispatcher";
+import { checkReadiness, HealthReport } from "./health";
+import { createCorrelationId, createLogger, getLogContext, withLogContext } from "./logger";
+import { countActivity } from "./metrics";
+import { createScheduler } from "./scheduler";
+import { createStore } from "./storage";
+
+const log = createLogger("pipeline");
+
+// Conversation state (STORAGE_BACKEND selects memory or file), shared by every host in this process
+export const storage = createStore();
+
+const dispatcher = createDispatcher();
+setupBot(dispatcher, storage);
+
+// Opens, reminds and closes scheduled rounds; hosts whose process keeps running call scheduler.start()
+export const scheduler = createScheduler(storage);
+
+// Readiness of this process (config, storage, handlers) for the health endpoints
+export const getReadiness = (options: LoadConfigOptions = {}): Promise<HealthReport> => {
+  return checkReadiness(storage, dispatcher, options);
+};
+
+// Run one incoming activity (message, invoke, conversationUpdate or installationUpdate) through the bot handlers.
+// Replies go out through send; invokes resolve to the response for the invoke's HTTP request.
+// Everything logged meanwhile carries the activity's correlation id (the host's, if it set one).
+export const processActivity = async (
+  activity: any,
+  send: (activity: any) => Promise<unknown>
+): Promise<InvokeResponse | undefined> => {
+  const context = {
+    correlationId: getLogContext().correlationId || createCorrelationId(),
+    conversationId: activity?.conversation?.id,
+    activityId: activity?.id,
+    activityType: activity?.type,
+  };
+  return withLogContext(context, async () => {
+    const startedAt = Date.now();
+    countActivity(activity?.type);
+    log.info("Activity received", { name: activity?.name, channelId: activity?.channelId });
+    try {
+      const invokeResponse = await dispatcher.dispatch(activity, send);
+      log.info("Activity handled", { durationMs: Date.now() - startedAt, status: invokeResponse?.status });
+      return invokeResponse;
+    } catch (err: any) {
+      log.error("Activity failed", { durationMs: Date.now() - startedAt, error: err });
+      throw err;
+    }
+  });
+};
+
+// Run one activity from a Bot Framework adapter (CloudAdapter, or the fake contexts of the
+// simulator, Direct Line channel and tests). The invoke response goes back through the adapter.
+export async function runTeamsAppWithTurnContext(turnContext: TurnContext): Promise<void> {
+  const activity = turnContext.activity;
+  const invokeResponse = await processActivity(activity, (response) => turnContext.sendActivity(response));
+
+  if (activity?.type === "invoke") {
+    await turnContext.sendActivity({
+      type: "invokeResponse",
+      value: invokeResponse || { status: 200 },
+    });
+  }
+}
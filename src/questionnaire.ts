@@ -0,0 +1,210 @@
+import fs from "fs";
+import path from "path";
+import { getConfig } from "./config";
+import defaultQuestionnaire from "./questionnaires/default.json";
+import { editDistance, normalizeText } from "./textMatching";
+
+// One multiple-choice question shown to participants
+export interface QuestionDefinition {
+  id: string;
+  text: string;
+  options: string[];
+  // How much agreeing on this question contributes to the compatibility score
+  weight: number;
+  // Options form a scale (e.g. experience levels), so nearby answers count as partially compatible
+  ordered?: boolean;
+  // The question in other languages, keyed by language code (e.g. "de"); answers are always stored as the
+  // options above, so translations only change what users see and type
+  translations?: Record<string, QuestionTranslation>;
+}
+
+export interface QuestionTranslation {
+  text: string;
+  // In the same order as the question's options
+  options: string[];
+}
+
+// A full questionnaire, in the order questions are asked
+export interface QuestionnaireDefinition {
+  id: string;
+  questions: QuestionDefinition[];
+  // Minimum score two participants need before they are paired
+  minScore?: number;
+}
+
+// Answers keyed by question id
+export type Answers = Record<string, string>;
+
+// Check a definition loaded from JSON and describe everything that is wrong with it
+export const validateQuestionnaire = (definition: any): string[] => {
+  const errors: string[] = [];
+
+  if (!definition || typeof definition !== "object") {
+    return ["questionnaire must be an object"];
+  }
+  if (typeof definition.id !== "string" || !definition.id) {
+    errors.push("questionnaire.id must be a non-empty string");
+  }
+  if (definition.minScore !== undefined && typeof definition.minScore !== "number") {
+    errors.push("questionnaire.minScore must be a number");
+  }
+  if (!Array.isArray(definition.questions) || definition.questions.length === 0) {
+    errors.push("questionnaire.questions must be a non-empty array");
+    return errors;
+  }
+
+  const seen = new Set<string>();
+  definition.questions.forEach((question: any, index: number) => {
+    const label = `questions[${index}]`;
+    if (typeof question?.id !== "string" || !question.id) {
+      errors.push(`${label}.id must be a non-empty string`);
+    } else if (seen.has(question.id)) {
+      errors.push(`${label}.id "${question.id}" is used more than once`);
+    } else {
+      seen.add(question.id);
+    }
+    if (typeof question?.text !== "string" || !question.text) {
+      errors.push(`${label}.text must be a non-empty string`);
+    }
+    if (typeof question?.weight !== "number" || question.weight < 0) {
+      errors.push(`${label}.weight must be a non-negative number`);
+    }
+    if (
+      !Array.isArray(question?.options) ||
+      question.options.length < 2 ||
+      question.options.some((option: any) => typeof option !== "string" || !option)
+    ) {
+      errors.push(`${label}.options must list at least two non-empty strings`);
+    }
+    for (const [language, translation] of Object.entries<any>(question?.translations || {})) {
+      if (typeof translation?.text !== "string" || !translation.text) {
+        errors.push(`${label}.translations.${language}.text must be a non-empty string`);
+      }
+      if (
+        !Array.isArray(translation?.options) ||
+        translation.options.length !== question?.options?.length ||
+        translation.options.some((option: any) => typeof option !== "string" || !option)
+      ) {
+        errors.push(`${label}.translations.${language}.options must translate every option, in order`);
+      }
+    }
+  });
+
+  return errors;
+};
+
+// Helper function to check a definition, throwing one error that lists everything wrong with it
+const checkQuestionnaire = (definition: any, source?: string): QuestionnaireDefinition => {
+  const errors = validateQuestionnaire(definition);
+  if (errors.length > 0) {
+    throw new Error(`Invalid questionnaire${source ? ` in ${source}` : ""}:\n  - ${errors.join("\n  - ")}`);
+  }
+  return definition as QuestionnaireDefinition;
+};
+
+// Load the questionnaire from QUESTIONNAIRE_FILE, falling back to the bundled default
+export const loadQuestionnaire = (file = getConfig().questionnaireFile): QuestionnaireDefinition => {
+  const definition = file
+    ? JSON.parse(fs.readFileSync(path.resolve(file), "utf8"))
+    : defaultQuestionnaire;
+  return checkQuestionnaire(definition, file);
+};
+
+// Read a questionnaire an organizer pasted as JSON
+export const parseQuestionnaire = (json: string): QuestionnaireDefinition => {
+  let definition: any;
+  try {
+    definition = JSON.parse(json);
+  } catch (err: any) {
+    throw new Error(`The questionnaire is not valid JSON: ${err?.message || err}`);
+  }
+  return checkQuestionnaire(definition);
+};
+
+// Questionnaires organizers can pick for an event by id: the default and every JSON file in QUESTIONNAIRE_DIR
+export const listQuestionnaires = (directory = getConfig().questionnaireDir): QuestionnaireDefinition[] => {
+  const questionnaires = [getDefaultQuestionnaire()];
+  const files = directory ? fs.readdirSync(path.resolve(directory)).filter((file) => file.endsWith(".json")) : [];
+  for (const file of files.sort()) {
+    const definition = loadQuestionnaire(path.join(directory as string, file));
+    if (!questionnaires.some((questionnaire) => questionnaire.id === definition.id)) {
+      questionnaires.push(definition);
+    }
+  }
+  return questionnaires;
+};
+
+let defaultDefinition: QuestionnaireDefinition | undefined;
+
+// Questions of events that don't have their own questionnaire, loaded once
+export const getDefaultQuestionnaire = (): QuestionnaireDefinition => {
+  defaultDefinition ??= loadQuestionnaire();
+  return defaultDefinition;
+};
+
+// Questions asked in an event: the questionnaire an organizer picked for it, or the default
+export const getEventQuestionnaire = (event?: { questionnaire?: QuestionnaireDefinition }): QuestionnaireDefinition => {
+  return event?.questionnaire || getDefaultQuestionnaire();
+};
+
+// Helper function to find the first question the user has not answered yet
+export const getNextQuestion = (
+  questionnaire: QuestionnaireDefinition,
+  answers: Answers
+): QuestionDefinition | undefined => {
+  return questionnaire.questions.find((question) => !answers[question.id]);
+};
+
+// Text of a question in a language, or its own text when it isn't translated
+export const getQuestionText = (question: QuestionDefinition, language: string): string => {
+  return question.translations?.[language]?.text || question.text;
+};
+
+// Label of one of a question's options in a language, or the option itself when it isn't translated
+export const getOptionLabel = (question: QuestionDefinition, option: string, language: string): string => {
+  return question.translations?.[language]?.options[question.options.indexOf(option)] || option;
+};
+
+// Find the option a typed answer means: its number ("2"), its label in the user's language in any case, a unique
+// part of it ("learning" for "Learning new things"), or the label with a small typo. Undefined when unclear.
+export const matchOption = (question: QuestionDefinition, text: string, language = "en"): string | undefined => {
+  const typed = normalizeText(text);
+  if (!typed) {
+    return undefined;
+  }
+
+  const number = typed.match(/^(?:option |number |no )?(\d+)$/);
+  if (number) {
+    return question.options[Number(number[1]) - 1];
+  }
+
+  const options = question.options.map((option) => ({
+    option,
+    normalized: normalizeText(getOptionLabel(question, option, language)),
+  }));
+  const exact = options.find(({ normalized }) => normalized === typed);
+  if (exact) {
+    return exact.option;
+  }
+
+  // A unique option containing what was typed, as whole words
+  const partial = options.filter(({ normalized }) => typed.length >= 3 && ` ${normalized} `.includes(` ${typed} `));
+  if (partial.length === 1) {
+    return partial[0].option;
+  }
+
+  // Otherwise the one closest option, allowing about one typo per four letters
+  const scored = options
+    .map(({ option, normalized }) => ({ option, distance: editDistance(typed, normalized) }))
+    .sort((a, b) => a.distance - b.distance);
+  const [best, next] = scored;
+  const allowed = Math.max(1, Math.floor(typed.length / 4));
+  if (best && best.distance <= allowed && (!next || next.distance > best.distance)) {
+    return best.option;
+  }
+  return undefined;
+};
+
+export const isComplete = (questionnaire: QuestionnaireDefinition, answers: Answers): boolean => {
+  return !getNextQuestion(questionnaire, answers);
+};
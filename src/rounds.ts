@@ -0,0 +1,255 @@
+// Rounds: pairing run from a team channel or group chat. An organizer starts a round there, the bot reads
+// the conversation's roster and sends every member an invitation in their personal chat. Members who answer
+// and confirm are paired when the round closes, and the pairs are posted back to the conversation as one card.
+import {
+  buildRoundInvitationCard,
+  buildRoundReminderCard,
+  buildSummaryCard,
+  createCardAttachment,
+  forUser,
+} from "./cards";
+import { CommandDefinition } from "./commands";
+import { createEvent, HoogahEvent, listOpenEvents, saveEvent } from "./events";
+import { getUserLanguage, withLanguage } from "./i18n";
+import { createLogger } from "./logger";
+import { countFunnelStep } from "./metrics";
+import { notifyMatch } from "./notifications";
+import {
+  ConversationReference,
+  getConversationReference,
+  listConversationMembers,
+  openPersonalConversation,
+  sendProactive,
+} from "./notifier";
+import { readGroupSize, takeOption } from "./organizer";
+import { getGroupSize, isReadyToMatch, pairEvent } from "./pairing";
+import { getEventQuestionnaire } from "./questionnaire";
+import { describeMembers, getParticipant, getUserState, Match, Participant, saveUserState, setIdentity } from "./state";
+import { StateStore } from "./storage";
+
+const log = createLogger("rounds");
+
+// Channel thread ids end in ";messageid=..."; a round belongs to the channel itself
+export const getRoundConversationId = (conversationId: string): string => conversationId.split(";")[0];
+
+// The open round of a team channel or group chat, if there is one
+export const findOpenRound = async (store: StateStore, conversationId: string): Promise<HoogahEvent | undefined> => {
+  const roundConversationId = getRoundConversationId(conversationId);
+  return (await listOpenEvents(store)).find((event) => event.round?.conversationId === roundConversationId);
+};
+
+// Helper function to send one member the invitation in their personal chat; returns the personal
+// conversation, or undefined when they can't be reached
+const inviteMember = async (
+  store: StateStore,
+  reference: ConversationReference,
+  round: HoogahEvent,
+  member: any
+): Promise<ConversationReference | undefined> => {
+  const personal = await openPersonalConversation(reference, member);
+  if (!personal) {
+    return undefined;
+  }
+  const state = await getUserState(store, personal.conversation.id);
+  setIdentity(state, member);
+  state.reference = personal;
+  state.hasStarted = true;
+  await saveUserState(store, personal.conversation.id, state);
+
+  const card = withLanguage(getUserLanguage(state), () => forUser(buildRoundInvitationCard(round), member.id));
+  if (!(await sendProactive(personal, { attachments: [createCardAttachment(card)] }))) {
+    return undefined;
+  }
+  countFunnelStep("welcome_shown");
+  return personal;
+};
+
+export interface StartRoundOptions {
+  // Display name of the organizer, shown on the invitation
+  startedBy?: string;
+  groupSize?: number;
+}
+
+// Start a round in a team channel or group chat and invite every member of its roster.
+// Fails when the roster can't be read or nobody could be invited.
+export const startRound = async (
+  store: StateStore,
+  conversationReference: ConversationReference,
+  name: string,
+  options: StartRoundOptions = {}
+): Promise<{ round?: HoogahEvent; unreachable?: number; error?: string }> => {
+  const conversationId = getRoundConversationId(conversationReference.conversation.id);
+  // Pairs are posted as a new message in the channel, not as a reply to the /round start thread
+  const reference = {
+    ...conversationReference,
+    conversation: { ...conversationReference.conversation, id: conversationId },
+  };
+
+  const members = await listConversationMembers(reference);
+  if (!members) {
+    return { error: "I couldn't read the members of this conversation." };
+  }
+  if (members.length === 0) {
+    return { error: "This conversation has no members to invite." };
+  }
+
+  const round = await createEvent(store, name);
+  round.groupSize = options.groupSize;
+  round.round = { conversationId, reference, startedBy: options.startedBy, members: [] };
+  for (const member of members) {
+    const personal = await inviteMember(store, reference, round, member);
+    if (personal) {
+      round.round.members.push(personal.conversation.id);
+    }
+  }
+  const invited = round.round.members.length;
+  if (invited === 0) {
+    round.status = "closed";
+  }
+  await saveEvent(store, round);
+  log.info("Round started", { eventId: round.id, members: members.length, invited });
+
+  if (invited === 0) {
+    return { error: "I couldn't reach any member of this conversation in a personal chat." };
+  }
+  return { round, unreachable: members.length - invited };
+};
+
+// Remind the invited members who haven't answered and confirmed every question yet; returns how many were reminded
+export const remindRound = async (store: StateStore, round: HoogahEvent): Promise<number> => {
+  const questionnaire = getEventQuestionnaire(round);
+  let reminded = 0;
+  for (const conversationId of round.round?.members || []) {
+    if (isReadyToMatch(questionnaire, await getParticipant(store, round.id, conversationId))) {
+      continue;
+    }
+    const state = await getUserState(store, conversationId);
+    const card = withLanguage(getUserLanguage(state), () =>
+      forUser(buildRoundReminderCard(round), state.reference?.user?.id)
+    );
+    if (await sendProactive(state.reference, { attachments: [createCardAttachment(card)] })) {
+      reminded++;
+    }
+  }
+  log.info("Round reminders sent", { eventId: round.id, reminded });
+  return reminded;
+};
+
+// Summary card of a closed round, posted in its channel or group chat
+const buildRoundSummaryCard = async (
+  store: StateStore,
+  round: HoogahEvent,
+  matches: Match[],
+  unmatched: Participant[]
+) => {
+  const lines: string[] = [];
+  for (const match of matches) {
+    lines.push(`• ${await describeMembers(store, match.members)}`);
+  }
+  if (matches.length === 0) {
+    lines.push("Nobody was grouped this time.");
+  }
+  if (unmatched.length > 0) {
+    lines.push(`Not paired this time: ${await describeMembers(store, unmatched.map((p) => p.conversationId))}`);
+  }
+  return buildSummaryCard(
+    `Pairs of ${round.name}`,
+    [
+      { title: "Invited", value: String(round.round?.members.length || 0) },
+      { title: "Group size", value: String(getGroupSize(round)) },
+      { title: "Groups", value: String(matches.length) },
+      { title: "Not paired", value: String(unmatched.length) },
+    ],
+    lines
+  );
+};
+
+// Close a round: pair the members who confirmed their answers, tell each pair and post the pairs
+// to the round's conversation. Returns whether the summary could be posted.
+export const closeRound = async (
+  store: StateStore,
+  round: HoogahEvent
+): Promise<{ matches: Match[]; unmatched: Participant[]; posted: boolean }> => {
+  const questionnaire = getEventQuestionnaire(round);
+  round.status = "closed";
+  await saveEvent(store, round);
+
+  // Round groups only form here, so there are no earlier groups for leftovers to join
+  const { matches, unmatched } = await pairEvent(store, questionnaire, round.id);
+  for (const match of matches) {
+    await notifyMatch(store, questionnaire, match);
+  }
+  const card = await buildRoundSummaryCard(store, round, matches, unmatched);
+  const posted = await sendProactive(round.round?.reference, { attachments: [createCardAttachment(card)] });
+  log.info("Round closed", { eventId: round.id, pairs: matches.length, unmatched: unmatched.length, posted });
+  return { matches, unmatched, posted };
+};
+
+const handleRoundCommand = async (context: any, store: StateStore, args: string[]) => {
+  const [action, ...rest] = args;
+  const open = await findOpenRound(store, context.activity.conversation.id);
+
+  switch (action) {
+    case "start": {
+      // /round start [name] [--size <N>]
+      if (open) {
+        await context.send(`${open.name} is still open here. Close it with /round close first.`);
+        return;
+      }
+      const size = takeOption(rest, "--size");
+      const { groupSize, error: sizeError } = readGroupSize(size.value);
+      if (sizeError) {
+        await context.send(sizeError);
+        return;
+      }
+      const reference = getConversationReference(context.activity);
+      if (!reference) {
+        await context.send("I can't reach this conversation later, so I can't run a round here.");
+        return;
+      }
+      const name = size.rest.join(" ").trim() || `Round of ${new Date().toISOString().slice(0, 10)}`;
+      const { round, unreachable, error } = await startRound(store, reference, name, {
+        startedBy: context.activity.from?.name,
+        groupSize,
+      });
+      if (!round) {
+        await context.send(error);
+        return;
+      }
+      await context.send(
+        `Started ${round.name}: I sent the questionnaire to ${round.round?.members.length} members in a personal chat.` +
+          (unreachable ? ` ${unreachable} couldn't be reached.` : "") +
+          " Send /round close to group everyone who answered."
+      );
+      return;
+    }
+
+    case "close": {
+      if (!open) {
+        await context.send("There is no open round here. Start one with /round start.");
+        return;
+      }
+      const { posted } = await closeRound(store, open);
+      if (!posted) {
+        await context.send(`${open.name} is closed, but I couldn't post the pairs here.`);
+      }
+      return;
+    }
+
+    default:
+      await context.send("Usage: /round start [name] [--size <N>] | /round close");
+  }
+};
+
+// Round commands, registered with the bot's command registry
+export const ROUND_COMMANDS: CommandDefinition[] = [
+  {
+    name: "/round",
+    usage: "/round start [name] [--size <N>] | close",
+    description: "Send everyone here the questionnaire, or close the round and post the pairs.",
+    permission: "organizer",
+    scope: "group",
+    handler: ({ context, store, args }) =>
+      handleRoundCommand(context, store, [args[0]?.toLowerCase(), ...args.slice(1)]),
+  },
+];
@@ -0,0 +1,399 @@
+// Recurring rounds: a schedule opens a round in a team channel or group chat every week (e.g. Monday 09:00),
+// optionally reminds the members who haven't finished their answers, and closes the round and posts the pairs
+// (e.g. Wednesday 17:00). Schedules live in the bot's storage; the scheduler runs in the bot process, checks
+// them every minute and runs whatever came due since, reading the time from src/clock.ts. The same check sends
+// the feedback requests of matches (src/feedback.ts).
+import { SummaryFact } from "./cards";
+import { getClock } from "./clock";
+import { CommandDefinition } from "./commands";
+import { getConfig } from "./config";
+import { createLogger } from "./logger";
+import { ConversationReference, getConversationReference, sendProactive } from "./notifier";
+import { readGroupSize, sendSummary, takeOption } from "./organizer";
+import { getGroupSize } from "./pairing";
+import { sendDueFeedbackRequests } from "./feedback";
+import { closeRound, findOpenRound, getRoundConversationId, remindRound, startRound } from "./rounds";
+import { StateStore } from "./storage";
+
+const log = createLogger("scheduler");
+
+export type ScheduleAction = "open" | "remind" | "close";
+
+// A day of the week and a time of day, in the schedule's time zone
+export interface WeeklyTime {
+  // 0 = Sunday ... 6 = Saturday
+  day: number;
+  // 24-hour "HH:MM"
+  time: string;
+}
+
+// Recurring rounds of one team channel or group chat
+export interface RoundSchedule {
+  // Conversation id without the ";messageid=..." suffix of channel threads
+  conversationId: string;
+  // Where rounds are announced and their pairs posted
+  reference: ConversationReference;
+  // Rounds are named after the schedule and the day they open
+  name: string;
+  groupSize?: number;
+  // IANA time zone of the weekly times, SCHEDULE_TIME_ZONE when the schedule was set
+  timeZone: string;
+  open: WeeklyTime;
+  close: WeeklyTime;
+  remind?: WeeklyTime;
+  createdBy?: string;
+  // Occurrence (ISO time) each action last ran for, so every occurrence runs once
+  lastRun: Partial<Record<ScheduleAction, string>>;
+}
+
+export interface Scheduler {
+  // Run every action that came due since the last check, and send due feedback requests
+  tick(): Promise<void>;
+  // Check every minute until stopped; only for hosts whose process keeps running
+  start(): void;
+  stop(): void;
+}
+
+const SCHEDULE_PREFIX = "schedule/";
+const TICK_INTERVAL_MS = 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const ACTIONS: ScheduleAction[] = ["open", "remind", "close"];
+
+export const getSchedule = async (store: StateStore, conversationId: string): Promise<RoundSchedule | undefined> => {
+  return store.get<RoundSchedule>(SCHEDULE_PREFIX + getRoundConversationId(conversationId));
+};
+
+export const saveSchedule = async (store: StateStore, schedule: RoundSchedule) => {
+  await store.set(SCHEDULE_PREFIX + schedule.conversationId, schedule);
+};
+
+export const deleteSchedule = async (store: StateStore, conversationId: string) => {
+  await store.delete(SCHEDULE_PREFIX + getRoundConversationId(conversationId));
+};
+
+export const listSchedules = async (store: StateStore): Promise<RoundSchedule[]> => {
+  const schedules: RoundSchedule[] = [];
+  for (const key of await store.keys(SCHEDULE_PREFIX)) {
+    const schedule = await store.get<RoundSchedule>(key);
+    if (schedule) {
+      schedules.push(schedule);
+    }
+  }
+  return schedules;
+};
+
+// Read a weekly time like "mon 09:00" or "Wednesday 17:30"
+export const parseWeeklyTime = (text: string): WeeklyTime | undefined => {
+  const match = /^([a-z]+)\s+(\d{1,2}):(\d{2})$/i.exec(text.trim());
+  const word = match ? match[1].toLowerCase() : "";
+  const day = DAYS.includes(word) ? DAYS.indexOf(word) : DAY_NAMES.indexOf(word);
+  if (!match || day < 0) {
+    return undefined;
+  }
+  const hours = Number(match[2]);
+  const minutes = Number(match[3]);
+  if (hours > 23 || minutes > 59) {
+    return undefined;
+  }
+  return { day, time: `${String(hours).padStart(2, "0")}:${match[3]}` };
+};
+
+export const formatWeeklyTime = (weekly: WeeklyTime): string => {
+  const day = DAYS[weekly.day];
+  return `${day[0].toUpperCase()}${day.slice(1)} ${weekly.time}`;
+};
+
+// Helper function to get the weekday, minute of the day and calendar date of an instant in a time zone
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || "";
+  return {
+    day: DAYS.indexOf(get("weekday").toLowerCase()),
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+  };
+};
+
+// Helper function to read a calendar date ("2026-10-26") plus minutes as if it were UTC, in milliseconds
+const toWallClock = (date: string, minutes: number): number => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) + minutes * MINUTE_MS;
+};
+
+// Helper function to get the instant a calendar date and time of day have in a time zone. The zone's offset is
+// looked up twice, because the offset of the guessed instant may be the one from the other side of a DST change.
+const getZonedInstant = (date: string, minutes: number, timeZone: string): Date => {
+  const wallClock = toWallClock(date, minutes);
+  const offsetAt = (instant: number) => {
+    const zoned = getZonedParts(new Date(instant), timeZone);
+    return toWallClock(zoned.date, zoned.minutes) - Math.floor(instant / MINUTE_MS) * MINUTE_MS;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+};
+
+// The latest time, at or before now, that a weekly time came around
+export const getLastOccurrence = (weekly: WeeklyTime, timeZone: string, now: Date): Date => {
+  const { day, minutes, date } = getZonedParts(now, timeZone);
+  const [hours, mins] = weekly.time.split(":").map(Number);
+  const target = hours * 60 + mins;
+  let daysBack = (day - weekly.day + 7) % 7;
+  if (daysBack === 0 && minutes < target) {
+    daysBack = 7;
+  }
+  // Step back whole calendar days, not 24-hour periods, so a DST change in between doesn't shift the time
+  for (;;) {
+    const occurrenceDate = new Date(toWallClock(date, 0) - daysBack * 24 * 60 * MINUTE_MS).toISOString().slice(0, 10);
+    const occurrence = getZonedInstant(occurrenceDate, target, timeZone);
+    // On the night the clocks go back, a time that repeats may still be ahead of now
+    if (occurrence.getTime() <= now.getTime()) {
+      return occurrence;
+    }
+    daysBack += 7;
+  }
+};
+
+// Create a schedule whose actions start with their next occurrence, not with ones already past
+export const createSchedule = (
+  reference: ConversationReference,
+  fields: Pick<RoundSchedule, "name" | "open" | "close" | "remind" | "groupSize" | "createdBy">
+): RoundSchedule => {
+  const conversationId = getRoundConversationId(reference.conversation.id);
+  const schedule: RoundSchedule = {
+    ...fields,
+    conversationId,
+    reference: { ...reference, conversation: { ...reference.conversation, id: conversationId } },
+    timeZone: getConfig().scheduleTimeZone,
+    lastRun: {},
+  };
+  const now = getClock().now();
+  for (const action of ACTIONS) {
+    const weekly = schedule[action];
+    if (weekly) {
+      schedule.lastRun[action] = getLastOccurrence(weekly, schedule.timeZone, now).toISOString();
+    }
+  }
+  return schedule;
+};
+
+// Helper function to run one action of a schedule for one occurrence
+const runAction = async (
+  store: StateStore,
+  schedule: RoundSchedule,
+  action: ScheduleAction,
+  occurrence: Date
+) => {
+  const open = await findOpenRound(store, schedule.conversationId);
+
+  if (action === "open") {
+    if (open) {
+      log.info("Round still open, not opening another", { conversationId: schedule.conversationId, eventId: open.id });
+      return;
+    }
+    const name = `${schedule.name} ${getZonedParts(occurrence, schedule.timeZone).date}`;
+    const { round, error } = await startRound(store, schedule.reference, name, {
+      startedBy: schedule.createdBy,
+      groupSize: schedule.groupSize,
+    });
+    await sendProactive(schedule.reference, {
+      text: round
+        ? `${round.name} is open: I sent everyone here the questionnaire in a personal chat.`
+        : `I couldn't open ${name}. ${error}`,
+    });
+    return;
+  }
+
+  if (!open) {
+    log.info("No open round, scheduled action skipped", { conversationId: schedule.conversationId, action });
+    return;
+  }
+  if (action === "remind") {
+    await remindRound(store, open);
+  } else {
+    await closeRound(store, open);
+  }
+};
+
+// Run the actions of a schedule that came due since they last ran, oldest first.
+// After downtime only the latest occurrence of each action runs.
+export const runDueActions = async (store: StateStore, schedule: RoundSchedule, now: Date) => {
+  const due: { action: ScheduleAction; occurrence: Date }[] = [];
+  for (const action of ACTIONS) {
+    const weekly = schedule[action];
+    if (!weekly) {
+      continue;
+    }
+    const occurrence = getLastOccurrence(weekly, schedule.timeZone, now);
+    const lastRun = schedule.lastRun[action];
+    if (!lastRun || occurrence.getTime() > new Date(lastRun).getTime()) {
+      due.push({ action, occurrence });
+    }
+  }
+  due.sort((a, b) => a.occurrence.getTime() - b.occurrence.getTime());
+
+  for (const { action, occurrence } of due) {
+    // Marked as run first, so a failing action isn't retried every minute
+    schedule.lastRun[action] = occurrence.toISOString();
+    await saveSchedule(store, schedule);
+    try {
+      log.info("Running scheduled action", { conversationId: schedule.conversationId, action, occurrence });
+      await runAction(store, schedule, action, occurrence);
+    } catch (err: any) {
+      log.error("Scheduled action failed", { conversationId: schedule.conversationId, action, error: err });
+    }
+  }
+};
+
+export const createScheduler = (store: StateStore): Scheduler => {
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+
+  const scheduler: Scheduler = {
+    tick: async () => {
+      // A slow check (e.g. a round with many members) must not overlap the next one
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        const now = getClock().now();
+        for (const schedule of await listSchedules(store)) {
+          await runDueActions(store, schedule, now);
+        }
+        await sendDueFeedbackRequests(store, now);
+      } catch (err: any) {
+        log.error("Scheduler check failed", { error: err });
+      } finally {
+        running = false;
+      }
+    },
+
+    start: () => {
+      if (timer) {
+        return;
+      }
+      timer = setInterval(() => void scheduler.tick(), TICK_INTERVAL_MS);
+      // Don't keep the process alive just for the scheduler
+      timer.unref();
+      void scheduler.tick();
+      log.info("Scheduler started", { intervalMs: TICK_INTERVAL_MS });
+    },
+
+    stop: () => {
+      if (timer) {
+        clearInterval(timer);
+        timer = undefined;
+      }
+    },
+  };
+  return scheduler;
+};
+
+const scheduleFacts = (schedule: RoundSchedule): SummaryFact[] => [
+  { title: "Rounds", value: schedule.name },
+  { title: "Opens", value: formatWeeklyTime(schedule.open) },
+  ...(schedule.remind ? [{ title: "Reminds", value: formatWeeklyTime(schedule.remind) }] : []),
+  { title: "Closes", value: formatWeeklyTime(schedule.close) },
+  { title: "Time zone", value: schedule.timeZone },
+  { title: "Group size", value: String(getGroupSize(schedule)) },
+];
+
+const SET_USAGE =
+  "Usage: /schedule set <open day> <HH:MM> <close day> <HH:MM> [--remind <day> <HH:MM>] [--size <N>] [name], " +
+  "e.g. /schedule set mon 09:00 wed 17:00 --remind wed 09:00 Coffee";
+
+const handleScheduleCommand = async (context: any, store: StateStore, args: string[]) => {
+  const [action, ...rest] = args;
+  const conversationId = context.activity.conversation.id;
+
+  switch (action) {
+    case "set": {
+      const remind = takeOption(rest, "--remind", 2);
+      const size = takeOption(remind.rest, "--size");
+      const [openDay, openTime, closeDay, closeTime, ...name] = size.rest;
+      const open = parseWeeklyTime(`${openDay} ${openTime}`);
+      const close = parseWeeklyTime(`${closeDay} ${closeTime}`);
+      const remindAt = remind.value ? parseWeeklyTime(remind.value) : undefined;
+      if (!open || !close || (remind.value && !remindAt)) {
+        await context.send(SET_USAGE);
+        return;
+      }
+      if (formatWeeklyTime(open) === formatWeeklyTime(close)) {
+        await context.send("A round can't open and close at the same time.");
+        return;
+      }
+      const { groupSize, error } = readGroupSize(size.value);
+      if (error) {
+        await context.send(error);
+        return;
+      }
+      const reference = getConversationReference(context.activity);
+      if (!reference) {
+        await context.send("I can't reach this conversation later, so I can't run rounds here.");
+        return;
+      }
+
+      const schedule = createSchedule(reference, {
+        name: name.join(" ").trim() || "Hoogah round",
+        open,
+        close,
+        remind: remindAt,
+        groupSize,
+        createdBy: context.activity.from?.name,
+      });
+      await saveSchedule(store, schedule);
+      await sendSummary(context, "Schedule saved", scheduleFacts(schedule), [
+        "Rounds open and close here automatically. Send /schedule clear to stop them.",
+      ]);
+      return;
+    }
+
+    case "show": {
+      const schedule = await getSchedule(store, conversationId);
+      if (!schedule) {
+        await context.send("There is no schedule here. Set one with /schedule set.");
+        return;
+      }
+      await sendSummary(context, "Schedule", scheduleFacts(schedule));
+      return;
+    }
+
+    case "clear": {
+      const schedule = await getSchedule(store, conversationId);
+      if (!schedule) {
+        await context.send("There is no schedule here.");
+        return;
+      }
+      await deleteSchedule(store, conversationId);
+      await context.send("Schedule cleared. A round that is open now stays open until /round close.");
+      return;
+    }
+
+    default:
+      await context.send("Usage: /schedule set|show|clear");
+  }
+};
+
+// Schedule commands, registered with the bot's command registry
+export const SCHEDULE_COMMANDS: CommandDefinition[] = [
+  {
+    name: "/schedule",
+    usage: "/schedule set <open> <close> [--remind <time>] | show | clear",
+    description: "Open, remind and close rounds here automatically every week.",
+    permission: "organizer",
+    scope: "group",
+    handler: ({ context, store, args }) =>
+      handleScheduleCommand(context, store, [args[0]?.toLowerCase(), ...args.slice(1)]),
+  },
+];
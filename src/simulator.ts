@@ -0,0 +1,183 @@
+// Local multi-user simulator behind the /chat endpoint: turns simple JSON requests into
+// Teams-like activities for any number of simulated users and keeps each conversation's history.
+// Requests are not authenticated, so hosts only serve it with LOCAL_DEV=true.
+import { createPersonalReference, ProactiveSender } from "./notifier";
+
+// Service URL of simulated conversations; proactive messages to them land in the session history
+export const SIMULATOR_SERVICE_URL = "http://localhost/simulator/";
+
+export interface SimulatorRequest {
+  // Simulated user; each user gets their own personal conversation unless conversationId is given
+  userId?: string;
+  userName?: string;
+  conversationId?: string;
+  // "channel" or "groupChat" simulates a team channel or group chat; its members are the users who wrote in it
+  conversationType?: "personal" | "channel" | "groupChat";
+  type?: "message" | "invoke";
+  text?: string;
+  // Card data for messages (Action.Submit); invoke value, or the data of an Action.Execute, for invokes
+  value?: any;
+  verb?: string;
+  // Kept for older clients that sent { message } instead of { text }
+  message?: string;
+}
+
+export interface SimulatorEntry {
+  direction: "incoming" | "outgoing";
+  activity: any;
+  // Outgoing activities sent outside of a turn (e.g. match notifications)
+  proactive?: boolean;
+  timestamp: string;
+}
+
+export interface SimulatorResponse {
+  success: boolean;
+  conversationId: string;
+  // Activities the bot sent during this turn, not counting the invoke response
+  messages: any[];
+  // Body of the invoke response, for invoke activities (e.g. the card replacing a clicked one)
+  invokeResponse?: any;
+  history: SimulatorEntry[];
+  received?: string;
+}
+
+// Runs one activity through the bot, i.e. runTeamsAppWithTurnContext from src/pipeline.ts
+export type TurnRunner = (turnContext: any) => Promise<void>;
+
+const DEFAULT_USER_ID = "test-user";
+const DEFAULT_USER_NAME = "Test User";
+
+// Histories of simulated conversations, kept in memory for as long as the process runs
+const sessions = new Map<string, SimulatorEntry[]>();
+
+const record = (conversationId: string, entry: Omit<SimulatorEntry, "timestamp">) => {
+  const history = sessions.get(conversationId) || [];
+  history.push({ ...entry, timestamp: new Date().toISOString() });
+  sessions.set(conversationId, history);
+};
+
+export const getSimulatorHistory = (conversationId: string): SimulatorEntry[] => {
+  return sessions.get(conversationId) || [];
+};
+
+// Helper function to find the conversation a request belongs to
+const resolveConversationId = (request: SimulatorRequest): string => {
+  return request.conversationId || `conversation-${request.userId || DEFAULT_USER_ID}`;
+};
+
+// AAD object id of a simulated user. Callers pick their user id, so it is namespaced and can never be a real
+// user's id in ORGANIZER_IDS or ADMIN_IDS (list "sim:<userId>" there to try organizer commands locally).
+export const getSimulatorAadObjectId = (userId: string): string => `sim:${userId}`;
+
+// Build the Teams-like activity for a simulator request
+export const createSimulatorActivity = (request: SimulatorRequest): any => {
+  const userId = request.userId || DEFAULT_USER_ID;
+  const activity: any = {
+    type: request.type === "invoke" ? "invoke" : "message",
+    id: `sim-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    from: {
+      id: userId,
+      name: request.userName || (request.userId ? userId : DEFAULT_USER_NAME),
+      aadObjectId: getSimulatorAadObjectId(userId),
+    },
+    recipient: { id: "hoogah-bot", name: "Hoogah" },
+    conversation: {
+      id: resolveConversationId(request),
+      conversationType: request.conversationType || "personal",
+    },
+    channelId: "msteams",
+    serviceUrl: SIMULATOR_SERVICE_URL,
+    locale: "en-US",
+    timestamp: new Date(),
+  };
+
+  if (activity.type === "invoke") {
+    // Accept either a full invoke value or just the data of the clicked Action.Execute
+    const value = request.value || {};
+    activity.name = "adaptiveCard/action";
+    activity.value = value.action
+      ? value
+      : { action: { type: "Action.Execute", verb: request.verb || value.type, data: value } };
+  } else if (request.value) {
+    activity.value = request.value;
+  } else {
+    activity.text = request.text || request.message || "hi";
+  }
+  return activity;
+};
+
+// Run one simulator request through the bot and return what it answered plus the conversation history
+export const handleSimulatorRequest = async (
+  runTurn: TurnRunner,
+  request: SimulatorRequest
+): Promise<SimulatorResponse> => {
+  const activity = createSimulatorActivity(request || {});
+  const conversationId = activity.conversation.id;
+  const messages: any[] = [];
+  let invokeResponse: any;
+
+  record(conversationId, { direction: "incoming", activity });
+  const turnContext: any = {
+    activity,
+    sendActivity: async (reply: any) => {
+      const outgoing = typeof reply === "string" ? { type: "message", text: reply } : reply;
+      record(conversationId, { direction: "outgoing", activity: outgoing });
+      if (outgoing.type === "invokeResponse") {
+        invokeResponse = outgoing.value?.body;
+      } else {
+        messages.push(outgoing);
+      }
+      return { id: `${activity.id}-reply-${messages.length}` };
+    },
+  };
+  await runTurn(turnContext);
+
+  return {
+    success: true,
+    conversationId,
+    messages,
+    invokeResponse,
+    history: getSimulatorHistory(conversationId),
+    received: activity.text,
+  };
+};
+
+// Proactive sender that delivers to simulated conversations by adding to their history,
+// and hands everything else to the host's real sender
+export const createSimulatorSender = (fallback?: ProactiveSender): ProactiveSender => ({
+  send: async (reference, activity) => {
+    if (reference.serviceUrl === SIMULATOR_SERVICE_URL) {
+      record(reference.conversation.id, { direction: "outgoing", activity, proactive: true });
+      return;
+    }
+    if (!fallback) {
+      throw new Error(`No proactive sender for ${reference.serviceUrl}`);
+    }
+    await fallback.send(reference, activity);
+  },
+  createPersonalConversation: async (reference, user) => {
+    if (reference.serviceUrl === SIMULATOR_SERVICE_URL) {
+      return createPersonalReference(reference, user, resolveConversationId({ userId: user.id }));
+    }
+    if (!fallback?.createPersonalConversation) {
+      throw new Error(`No proactive sender for ${reference.serviceUrl}`);
+    }
+    return fallback.createPersonalConversation(reference, user);
+  },
+  // Simulated conversations have no roster; everyone who wrote in one counts as a member
+  listMembers: async (reference) => {
+    if (reference.serviceUrl === SIMULATOR_SERVICE_URL) {
+      const members = new Map<string, any>();
+      for (const entry of getSimulatorHistory(reference.conversation.id)) {
+        if (entry.direction === "incoming") {
+          members.set(entry.activity.from.id, entry.activity.from);
+        }
+      }
+      return [...members.values()];
+    }
+    if (!fallback?.listMembers) {
+      throw new Error(`No proactive sender for ${reference.serviceUrl}`);
+    }
+    return fallback.listMembers(reference);
+  },
+});
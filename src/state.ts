@@ -0,0 +1,272 @@
+import { Language } from "./i18n";
+import { ConversationReference } from "./notifier";
+import { Answers } from "./questionnaire";
+import { StateStore } from "./storage";
+
+// Per-conversation state, shared by every event the user takes part in
+export interface UserState {
+  hasStarted?: boolean;
+  // Event the user is currently answering questions for
+  eventId?: string;
+  // Participant identity, captured from the latest incoming activity
+  name?: string;
+  chatId?: string;
+  // AAD object id, when the channel sends one (Teams does; the simulator and Direct Line don't)
+  aadObjectId?: string;
+  // User principal name (sign-in address), preferred in chat deep links; Teams only sends it with roster members
+  upn?: string;
+  // Saved from the latest incoming activity, so the bot can message the user proactively
+  reference?: ConversationReference;
+  // Teams locale of the latest incoming activity (e.g. "de-DE"), for messages sent outside the user's turn
+  locale?: string;
+  // Language picked with /language; overrides the locale
+  language?: Language;
+}
+
+// Questionnaire progress of one conversation within one event
+export interface Participant {
+  conversationId: string;
+  eventId: string;
+  // Answers keyed by question id
+  answers: Answers;
+  // Identifies this run of the questionnaire; cards from earlier runs carry a different id
+  sessionId?: string;
+  // When the user confirmed their reviewed answers; only confirmed participants are matched,
+  // and earlier confirmations win ties
+  confirmedAt?: string;
+  // Set once the user has been paired
+  matchId?: string;
+}
+
+// A pair (or larger group) of participants of the same event, keyed by conversation id
+export interface Match {
+  id: string;
+  eventId: string;
+  members: string[];
+  score: number;
+  createdAt: string;
+  // When the members were asked how it went
+  feedbackRequestedAt?: string;
+  // Answers to the feedback request, keyed by conversation id
+  feedback?: Record<string, MatchFeedback>;
+}
+
+// One member's answer to "Did you meet? How was it?"
+export interface MatchFeedback {
+  met: boolean;
+  // 1 (poor) to 5 (great); only asked when they met
+  rating?: number;
+  comment?: string;
+  submittedAt: string;
+}
+
+const USER_PREFIX = "user/";
+const PROCESSED_PREFIX = "processed/";
+const PARTICIPANT_PREFIX = "participant/";
+const MATCH_PREFIX = "match/";
+const HISTORY_PREFIX = "history/";
+const BLOCKED_PREFIX = "blocked/";
+
+// One group someone was part of, kept after its event is over so they aren't grouped with the same people again
+export interface MatchHistoryEntry {
+  matchId: string;
+  eventId: string;
+  // Conversation ids of the other members
+  partners: string[];
+  matchedAt: string;
+}
+
+// How many past groups are remembered per conversation
+const MATCH_HISTORY_LIMIT = 20;
+
+const participantKey = (eventId: string, conversationId: string) =>
+  `${PARTICIPANT_PREFIX}${eventId}/${conversationId}`;
+
+// Helper function to get or initialize user state
+export const getUserState = async (store: StateStore, conversationId: string): Promise<UserState> => {
+  return (await store.get<UserState>(USER_PREFIX + conversationId)) || {};
+};
+
+export const saveUserState = async (store: StateStore, conversationId: string, state: UserState) => {
+  await store.set(USER_PREFIX + conversationId, state);
+};
+
+// Remember who a Teams account (an activity's sender or a roster member) is, so partners see their name and the
+// bot can reach them later
+export const setIdentity = (state: UserState, account: any) => {
+  state.name = account.name || state.name;
+  state.chatId = account.aadObjectId || account.id || state.chatId;
+  state.aadObjectId = account.aadObjectId || state.aadObjectId;
+  state.upn = account.userPrincipalName || state.upn;
+};
+
+// Display names of conversations, e.g. the members of a group, joined with "&"
+export const describeMembers = async (store: StateStore, conversationIds: string[]): Promise<string> => {
+  const names: string[] = [];
+  for (const conversationId of conversationIds) {
+    names.push((await getUserState(store, conversationId)).name || conversationId);
+  }
+  return names.join(" & ");
+};
+
+export const deleteUserState = async (store: StateStore, conversationId: string) => {
+  await store.delete(USER_PREFIX + conversationId);
+};
+
+// Number of conversations the bot keeps state for
+export const countConversations = async (store: StateStore): Promise<number> => {
+  return (await store.keys(USER_PREFIX)).length;
+};
+
+// Helper function to get or initialize a conversation's progress in an event
+export const getParticipant = async (
+  store: StateStore,
+  eventId: string,
+  conversationId: string
+): Promise<Participant> => {
+  return (
+    (await store.get<Participant>(participantKey(eventId, conversationId))) || {
+      conversationId,
+      eventId,
+      answers: {},
+    }
+  );
+};
+
+export const saveParticipant = async (store: StateStore, participant: Participant) => {
+  await store.set(participantKey(participant.eventId, participant.conversationId), participant);
+};
+
+export const deleteParticipant = async (store: StateStore, eventId: string, conversationId: string) => {
+  await store.delete(participantKey(eventId, conversationId));
+};
+
+// List everyone who has started the questionnaire of an event
+export const listParticipants = async (store: StateStore, eventId: string): Promise<Participant[]> => {
+  const keys = await store.keys(`${PARTICIPANT_PREFIX}${eventId}/`);
+  const participants: Participant[] = [];
+  for (const key of keys) {
+    const participant = await store.get<Participant>(key);
+    if (participant) {
+      participants.push(participant);
+    }
+  }
+  return participants;
+};
+
+export const getMatch = async (store: StateStore, matchId: string): Promise<Match | undefined> => {
+  return store.get<Match>(MATCH_PREFIX + matchId);
+};
+
+export const saveMatch = async (store: StateStore, match: Match) => {
+  await store.set(MATCH_PREFIX + match.id, match);
+};
+
+export const deleteMatch = async (store: StateStore, matchId: string) => {
+  await store.delete(MATCH_PREFIX + matchId);
+};
+
+// List all matches made in an event, or in every event
+export const listMatches = async (store: StateStore, eventId?: string): Promise<Match[]> => {
+  const matches: Match[] = [];
+  for (const key of await store.keys(MATCH_PREFIX)) {
+    const match = await store.get<Match>(key);
+    if (match && (!eventId || match.eventId === eventId)) {
+      matches.push(match);
+    }
+  }
+  return matches;
+};
+
+// Past groups of a conversation, oldest first
+export const getMatchHistory = async (store: StateStore, conversationId: string): Promise<MatchHistoryEntry[]> => {
+  return (await store.get<MatchHistoryEntry[]>(HISTORY_PREFIX + conversationId)) || [];
+};
+
+// Add a match to the history of each of its members (again after it grew, with its new members)
+export const recordMatchHistory = async (store: StateStore, match: Match) => {
+  for (const conversationId of match.members) {
+    const history = (await getMatchHistory(store, conversationId)).filter((entry) => entry.matchId !== match.id);
+    history.push({
+      matchId: match.id,
+      eventId: match.eventId,
+      partners: match.members.filter((id) => id !== conversationId),
+      matchedAt: match.createdAt,
+    });
+    await store.set(HISTORY_PREFIX + conversationId, history.slice(-MATCH_HISTORY_LIMIT));
+  }
+};
+
+// Forget a dissolved match, so its members may be grouped together again
+export const forgetMatchHistory = async (store: StateStore, match: Match) => {
+  for (const conversationId of match.members) {
+    const history = await getMatchHistory(store, conversationId);
+    await store.set(HISTORY_PREFIX + conversationId, history.filter((entry) => entry.matchId !== match.id));
+  }
+};
+
+export const deleteMatchHistory = async (store: StateStore, conversationId: string) => {
+  await store.delete(HISTORY_PREFIX + conversationId);
+};
+
+// Everyone a conversation was grouped with in its last `rounds` groups
+export const getRecentPartners = async (
+  store: StateStore,
+  conversationId: string,
+  rounds: number
+): Promise<string[]> => {
+  if (rounds <= 0) {
+    return [];
+  }
+  const recent = (await getMatchHistory(store, conversationId)).slice(-rounds);
+  return [...new Set(recent.flatMap((entry) => entry.partners))];
+};
+
+// People a conversation is never grouped with again, because it rated a group with them poorly
+export const getBlockedPartners = async (store: StateStore, conversationId: string): Promise<string[]> => {
+  return (await store.get<string[]>(BLOCKED_PREFIX + conversationId)) || [];
+};
+
+export const blockPartners = async (store: StateStore, conversationId: string, partners: string[]) => {
+  const blocked = await getBlockedPartners(store, conversationId);
+  await store.set(BLOCKED_PREFIX + conversationId, [...new Set([...blocked, ...partners])]);
+};
+
+export const deleteBlockedPartners = async (store: StateStore, conversationId: string) => {
+  await store.delete(BLOCKED_PREFIX + conversationId);
+};
+
+export const deleteProcessedActivities = async (store: StateStore, conversationId: string) => {
+  await store.delete(PROCESSED_PREFIX + conversationId);
+};
+
+// How many recent activity ids are remembered per conversation for deduplication
+const PROCESSED_HISTORY = 50;
+
+// Remember an incoming activity id; returns false when it was already processed (e.g. a channel retry)
+export const markActivityProcessed = async (
+  store: StateStore,
+  conversationId: string,
+  activityId?: string
+): Promise<boolean> => {
+  if (!activityId) {
+    return true;
+  }
+  const key = PROCESSED_PREFIX + conversationId;
+  const recent = (await store.get<string[]>(key)) || [];
+  if (recent.includes(activityId)) {
+    return false;
+  }
+  await store.set(key, [...recent, activityId].slice(-PROCESSED_HISTORY));
+  return true;
+};
+
+// Forget an activity id whose handling failed, so the channel's retry of it is handled again
+export const forgetActivityProcessed = async (store: StateStore, conversationId: string, activityId?: string) => {
+  if (!activityId) {
+    return;
+  }
+  const key = PROCESSED_PREFIX + conversationId;
+  const recent = (await store.get<string[]>(key)) || [];
+  await store.set(key, recent.filter((id) => id !== activityId));
+};
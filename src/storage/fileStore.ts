@@ -0,0 +1,74 @@
+import fs from "fs";
+import path from "path";
+import { StateStore } from "./stateStore";
+
+/**
+ * Store persisted to a single JSON file, so state survives restarts without any
+ * outside service. Every write rewrites the file through a temp file + rename,
+ * and writes are serialized so concurrent turns cannot interleave.
+ */
+export class FileStore implements StateStore {
+  protected _data?: Record<string, any>;
+  protected _loading?: Promise<Record<string, any>>;
+  protected _writing: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    const data = await this._load();
+    return data[key] === undefined ? undefined : structuredClone(data[key]);
+  }
+
+  async set<T = any>(key: string, value: T): Promise<void> {
+    const data = await this._load();
+    data[key] = structuredClone(value);
+    await this._flush();
+  }
+
+  async delete(key: string): Promise<void> {
+    const data = await this._load();
+    if (key in data) {
+      delete data[key];
+      await this._flush();
+    }
+  }
+
+  async keys(prefix = ""): Promise<string[]> {
+    const data = await this._load();
+    return Object.keys(data).filter((key) => key.startsWith(prefix));
+  }
+
+  // Every caller awaits the same read, so a write made while the file is being read can't be overwritten by it
+  protected _load(): Promise<Record<string, any>> {
+    this._loading ??= this._read().catch((err) => {
+      // Let the next call try again instead of failing for good
+      this._loading = undefined;
+      throw err;
+    });
+    return this._loading;
+  }
+
+  protected async _read(): Promise<Record<string, any>> {
+    try {
+      this._data = JSON.parse(await fs.promises.readFile(this.filePath, "utf8"));
+    } catch (err: any) {
+      if (err?.code !== "ENOENT") {
+        throw new Error(`Could not read state file ${this.filePath}: ${err?.message || err}`);
+      }
+      this._data = {};
+    }
+    return this._data as Record<string, any>;
+  }
+
+  protected _flush(): Promise<void> {
+    const snapshot = JSON.stringify(this._data, null, 2);
+    // A failed write must not block the ones queued after it
+    this._writing = this._writing.catch(() => undefined).then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, snapshot, "utf8");
+      await fs.promises.rename(tempPath, this.filePath);
+    });
+    return this._writing;
+  }
+}
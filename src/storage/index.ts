@@ -0,0 +1,29 @@
+import { getConfig } from "../config";
+import { FileStore } from "./fileStore";
+import { MemoryStore } from "./memoryStore";
+import { StateStore } from "./stateStore";
+
+export { FileStore, MemoryStore };
+export type { StateStore };
+
+export type StorageBackend = "memory" | "file";
+
+export interface StoreOptions {
+  backend?: StorageBackend;
+  // Path of the JSON file used by the "file" backend
+  filePath?: string;
+}
+
+// Create the store selected by STORAGE_BACKEND ("memory" by default, or "file" with STORAGE_FILE)
+export const createStore = (options: StoreOptions = {}): StateStore => {
+  const backend = options.backend || getConfig().storage.backend;
+
+  switch (backend) {
+    case "memory":
+      return new MemoryStore();
+    case "file":
+      return new FileStore(options.filePath || getConfig().storage.filePath);
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected "memory" or "file")`);
+  }
+};
@@ -0,0 +1,25 @@
+import { StateStore } from "./stateStore";
+
+/**
+ * In-process store. State is lost whenever the process restarts.
+ */
+export class MemoryStore implements StateStore {
+  protected readonly _store = new Map<string, string>();
+
+  async get<T = any>(key: string): Promise<T | undefined> {
+    const raw = this._store.get(key);
+    return raw === undefined ? undefined : JSON.parse(raw);
+  }
+
+  async set<T = any>(key: string, value: T): Promise<void> {
+    this._store.set(key, JSON.stringify(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    this._store.delete(key);
+  }
+
+  async keys(prefix = ""): Promise<string[]> {
+    return [...this._store.keys()].filter((key) => key.startsWith(prefix));
+  }
+}
@@ -0,0 +1,17 @@
+import { IStorage } from "@microsoft/teams.common";
+
+/**
+ * Key/value store the bot keeps all of its state in.
+ *
+ * Values must be JSON-serializable. Implementations hand out copies, so callers
+ * have to `set` a value again after changing it. To add a hosted backend
+ * (Cosmos DB, Redis, Blob Storage, ...) implement this interface and register
+ * it in `createStore` (src/storage/index.ts).
+ */
+export interface StateStore extends IStorage<string, any> {
+  get<T = any>(key: string): Promise<T | undefined>;
+  set<T = any>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  // List stored keys, optionally only those starting with `prefix`
+  keys(prefix?: string): Promise<string[]>;
+}
@@ -0,0 +1,53 @@
+// Card action data (src/cardActions.ts): only the known action types pass, every field is checked, and answers
+// carry the position of their question so cards from before a change are rejected
+import assert from "node:assert/strict";
+import { parseCardAction } from "../../src/cardActions";
+import { setProactiveSender } from "../../src/notifier";
+import { runTeamsAppWithTurnContext } from "../../src/pipeline";
+import { createSimulatorSender, handleSimulatorRequest } from "../../src/simulator";
+import { clearStore, getActionData, getCardText } from "../support";
+
+const ANSWER = {
+  type: "answer",
+  questionId: "q1",
+  value: "Networking",
+  step: 1,
+  sessionId: "session-1",
+  questionnaireId: "default",
+};
+
+export default {
+  "only the known action types are accepted": () => {
+    for (const type of ["constructor", "toString", "__proto__", "hasOwnProperty", "bogus"]) {
+      assert.deepEqual(parseCardAction({ type }), { error: `unknown action type "${type}"` });
+    }
+    assert.deepEqual(parseCardAction({ type: ["answer"] }), { error: 'unknown action type "answer"' });
+    assert.deepEqual(parseCardAction(undefined), { error: "action data must be an object" });
+  },
+
+  "every field of an action is checked": () => {
+    assert.deepEqual(parseCardAction({ ...ANSWER, comment: "inputs of other actions are ignored" }), { action: ANSWER });
+    assert.deepEqual(parseCardAction({ ...ANSWER, step: undefined }), { error: "answer.step is required" });
+    assert.deepEqual(parseCardAction({ ...ANSWER, step: "1" }), { error: "answer.step must be a number" });
+    assert.deepEqual(parseCardAction({ type: "feedback", matchId: "m", met: "maybe" }), {
+      error: "feedback.met must be one of yes, no",
+    });
+    assert.deepEqual(parseCardAction({ type: "join" }), { action: { type: "join" } });
+  },
+
+  "an answer for another position of its question is stale": async () => {
+    await clearStore();
+    setProactiveSender(createSimulatorSender());
+    const send = (value: any) =>
+      handleSimulatorRequest(runTeamsAppWithTurnContext, { userId: "sim-cora", type: "invoke", value });
+    await handleSimulatorRequest(runTeamsAppWithTurnContext, { userId: "sim-cora", text: "hi" });
+    const question = (await send({ type: "join", joinCode: "HOOGAH" })).invokeResponse.value;
+
+    const answer = getActionData(question, "Networking");
+    const stale = (await send({ ...answer, step: 2 })).invokeResponse.value;
+    assert.match(getCardText(stale), /That card is from an earlier session[\s\S]*Question 1/);
+
+    const answered = (await send(answer)).invokeResponse.value;
+    assert.match(getCardText(answered), /Question 2/);
+  },
+};
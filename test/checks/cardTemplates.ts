@@ -0,0 +1,91 @@
+// The card templating in src/cardTemplates.ts: bindings, $when and $data (with $index), the expression language
+// and the errors for expressions it can't read
+import assert from "node:assert/strict";
+import { evaluateExpression, expandTemplate } from "../../src/cardTemplates";
+
+// Helper function to evaluate an expression against data, as a binding at the top of a template would
+const evaluate = (expression: string, data: any = {}) => evaluateExpression(expression, { data, root: data });
+
+export default {
+  "a $data list repeats an element with $index": () => {
+    const template = { items: [{ $data: "${people}", text: "${$index}: ${name} of ${$root.team}", index: "${$index}" }] };
+    const data = { team: "Blue", people: [{ name: "Ann" }, { name: "Bob" }] };
+    assert.deepEqual(expandTemplate(template, data), {
+      items: [
+        { text: "0: Ann of Blue", index: 0 },
+        { text: "1: Bob of Blue", index: 1 },
+      ],
+    });
+    // Items that aren't objects are reached through $data
+    assert.deepEqual(expandTemplate([{ $data: "${lines}", text: "${$data}" }], { lines: ["a", "b"] }), [
+      { text: "a" },
+      { text: "b" },
+    ]);
+    assert.deepEqual(expandTemplate([{ $data: "${missing}", text: "x" }], {}), [{ text: "x" }]);
+    assert.deepEqual(expandTemplate([{ $data: "${none}", text: "x" }], { none: [] }), []);
+  },
+
+  "$when inside a $data list filters the items": () => {
+    const template = [{ $data: "${people}", $when: "${$index > 0 && !away}", name: "${name}" }];
+    const data = { people: [{ name: "Ann" }, { name: "Bob", away: true }, { name: "Cy" }, { name: "Di", away: false }] };
+    assert.deepEqual(expandTemplate(template, data), [{ name: "Cy" }, { name: "Di" }]);
+    // Outside of lists an element with a false $when is left out of its object
+    assert.deepEqual(expandTemplate({ a: { $when: "${false}", b: 1 }, c: 2 }), { c: 2 });
+  },
+
+  "an object $data changes the scope of its bindings": () => {
+    const template = { $data: "${partner}", text: "${name} (${$root.event})" };
+    assert.deepEqual(expandTemplate(template, { event: "Spring", partner: { name: "Ann" } }), { text: "Ann (Spring)" });
+  },
+
+  "a binding that is the whole string keeps its type": () => {
+    const data = { count: 3, flag: false, list: [1, 2], nested: { a: 1 } };
+    assert.deepEqual(expandTemplate({ count: "${count}", flag: "${flag}", list: "${list}", nested: "${nested}" }, data), data);
+    assert.deepEqual(expandTemplate({ text: "${count} left, ${flag}" }, data), { text: "3 left, false" });
+    // Missing values leave whole bindings out and write nothing within text
+    assert.deepEqual(expandTemplate({ gone: "${gone}", text: "[${gone}]" }, data), { text: "[]" });
+    assert.deepEqual(expandTemplate({ text: "${a.b.c}" }, {}), {});
+  },
+
+  "comparisons, logic and literals": () => {
+    const data = { n: 2, name: "Ann", list: ["x"], empty: [], zero: 0 };
+    assert.equal(evaluate("n > 1", data), true);
+    assert.equal(evaluate("n >= 3", data), false);
+    assert.equal(evaluate("n <= 2 && n < 3", data), true);
+    assert.equal(evaluate("name == 'Ann'", data), true);
+    assert.equal(evaluate('name != "Ann"', data), false);
+    assert.equal(evaluate("list.length == 1", data), true);
+    assert.equal(evaluate("list[0]", data), "x");
+    assert.equal(evaluate("!empty", data), true);
+    assert.equal(evaluate("!!zero", data), false);
+    assert.equal(evaluate("zero || 'none'", data), "none");
+    assert.equal(evaluate("name && n", data), 2);
+    assert.equal(evaluate("empty && n", data), data.empty);
+    assert.equal(evaluate("!(n > 1 || false) || null == missing", data), false);
+    assert.equal(evaluate("'it\\'s'"), "it's");
+    assert.equal(evaluate("1.5 > 1 && true"), true);
+  },
+
+  "bundle texts are localized with the current $data": () => {
+    const localize = (key: string, data: any) => `<${key}:${data?.name}>`;
+    const template = { title: "{welcome.title}", people: [{ $data: "${people}", text: "{welcome.greeting} ${name}" }] };
+    assert.deepEqual(expandTemplate(template, { name: "root", people: [{ name: "Ann" }] }, localize), {
+      title: "<welcome.title:root>",
+      people: [{ text: "<welcome.greeting:Ann> Ann" }],
+    });
+    // Values aren't read as template text, and without a localize function tokens stay as they are
+    assert.deepEqual(expandTemplate({ text: "${name}" }, { name: "{welcome.title} ${x}" }, localize), {
+      text: "{welcome.title} ${x}",
+    });
+    assert.deepEqual(expandTemplate({ text: "{welcome.title}" }), { text: "{welcome.title}" });
+  },
+
+  "expressions it can't read are errors": () => {
+    assert.throws(() => evaluate("n +"), /Can't read template expression "n \+"/);
+    assert.throws(() => evaluate("n >"), /Template expression "n >" ends too early/);
+    assert.throws(() => evaluate("(n > 1"), /Template expression "\(n > 1" misses a "\)"/);
+    assert.throws(() => evaluate("n n"), /Unexpected "n" in template expression "n n"/);
+    assert.throws(() => evaluate(")"), /Unexpected "\)" in template expression "\)"/);
+    assert.throws(() => expandTemplate({ text: "Hi ${name ==}" }, {}), /ends too early/);
+  },
+};
@@ -0,0 +1,86 @@
+// Validation of the settings in src/config.ts: every auth type's required settings, unknown values and the
+// one ConfigError that lists every problem at once
+import assert from "node:assert/strict";
+import { ConfigError, loadConfig, LoadConfigOptions } from "../../src/config";
+
+// Helper function to load a configuration that must be rejected, returning the problems it was rejected for
+const rejectedFor = (env: Record<string, string>, options: LoadConfigOptions = {}): string[] => {
+  try {
+    loadConfig(env, options);
+  } catch (err: any) {
+    assert.ok(err instanceof ConfigError, `expected a ConfigError, got ${err}`);
+    return err.problems;
+  }
+  assert.fail(`expected ${JSON.stringify(env)} to be rejected`);
+};
+
+export default {
+  "SingleTenant needs a client id, secret and tenant": () => {
+    assert.deepEqual(rejectedFor({ BOT_TYPE: "SingleTenant" }), [
+      "CLIENT_ID is required for SingleTenant auth",
+      "CLIENT_SECRET is required for SingleTenant auth",
+      "TENANT_ID is required for SingleTenant auth",
+    ]);
+    const config = loadConfig({ CLIENT_ID: "app", CLIENT_SECRET: "secret", TENANT_ID: "tenant" });
+    assert.deepEqual(config.auth, { type: "SingleTenant", clientId: "app", clientSecret: "secret", tenantId: "tenant" });
+  },
+
+  "MultiTenant needs a client id and secret, and no tenant": () => {
+    assert.deepEqual(rejectedFor({ CLIENT_ID: "app" }), ["CLIENT_SECRET is required for MultiTenant auth"]);
+    assert.deepEqual(rejectedFor({ CLIENT_SECRET: "secret" }), ["CLIENT_ID is required for MultiTenant auth"]);
+    assert.deepEqual(rejectedFor({ BOT_TYPE: "MultiTenant", CLIENT_ID: "app", CLIENT_SECRET: "secret", TENANT_ID: "t" }), [
+      "TENANT_ID is set, but MultiTenant bots accept every tenant; use BOT_TYPE=SingleTenant or drop it",
+    ]);
+    assert.equal(loadConfig({ CLIENT_ID: "app", CLIENT_SECRET: "secret" }).auth.type, "MultiTenant");
+  },
+
+  "UserAssignedMsi needs a client id and tenant, and no secret": () => {
+    assert.deepEqual(rejectedFor({ BOT_TYPE: "UserAssignedMsi", CLIENT_ID: "identity", CLIENT_SECRET: "secret" }), [
+      "CLIENT_SECRET is set, but UserAssignedMsi authenticates with the managed identity and no secret",
+      "TENANT_ID is required for UserAssignedMsi auth",
+    ]);
+    const config = loadConfig({ BOT_TYPE: "UserAssignedMsi", CLIENT_ID: "identity", TENANT_ID: "tenant" });
+    assert.equal(config.auth.type, "UserAssignedMsi");
+    assert.equal(config.auth.clientSecret, undefined);
+  },
+
+  "an unknown auth type is rejected": () => {
+    assert.deepEqual(rejectedFor({ BOT_TYPE: "Anonymous", CLIENT_ID: "app", CLIENT_SECRET: "secret" }), [
+      'BOT_TYPE "Anonymous" is not supported (expected SingleTenant, MultiTenant, UserAssignedMsi)',
+    ]);
+  },
+
+  "credentials are only required where the host asks for them": () => {
+    assert.equal(loadConfig({}).auth.clientId, "");
+    assert.deepEqual(rejectedFor({}, { requireCredentials: true }), [
+      "CLIENT_ID is required for MultiTenant auth",
+      "CLIENT_SECRET is required for MultiTenant auth",
+    ]);
+  },
+
+  "aliases are accepted, but not with different values": () => {
+    const config = loadConfig({ MicrosoftAppId: "app", MicrosoftAppPassword: "secret", MicrosoftAppTenantId: "tenant" });
+    assert.deepEqual(config.auth, { type: "SingleTenant", clientId: "app", clientSecret: "secret", tenantId: "tenant" });
+    assert.deepEqual(rejectedFor({ CLIENT_ID: "app", MicrosoftAppId: "other", CLIENT_SECRET: "secret" }), [
+      "CLIENT_ID, MicrosoftAppId are set to different values; set only one of them",
+    ]);
+  },
+
+  "one error lists every problem": () => {
+    const env = { BOT_TYPE: "SingleTenant", STORAGE_BACKEND: "redis", GROUP_SIZE: "9", LOCAL_DEV: "yes" };
+    assert.throws(
+      () => loadConfig(env),
+      (err: any) =>
+        err instanceof ConfigError &&
+        err.problems.length === 6 &&
+        err.message ===
+          "Invalid configuration:\n" +
+            "  - CLIENT_ID is required for SingleTenant auth\n" +
+            "  - CLIENT_SECRET is required for SingleTenant auth\n" +
+            "  - TENANT_ID is required for SingleTenant auth\n" +
+            '  - STORAGE_BACKEND "redis" is not supported (expected memory or file)\n' +
+            '  - GROUP_SIZE "9" must be a whole number from 2 to 6\n' +
+            '  - LOCAL_DEV "yes" must be true or false'
+    );
+  },
+};
@@ -0,0 +1,187 @@
+// The local Direct Line channel (src/directLine.ts): tokens and their refresh, conversations removed when their token
+// expires, paging activities by watermark, the errors for unknown conversations and bad credentials, and
+// server-assigned senders
+import assert from "node:assert/strict";
+import {
+  createDirectLineSender,
+  DirectLineRequest,
+  DirectLineResponse,
+  handleDirectLineRequest,
+} from "../../src/directLine";
+import { setProactiveSender } from "../../src/notifier";
+import { runTeamsAppWithTurnContext } from "../../src/pipeline";
+import { clearStore, withEnv } from "../support";
+
+const SECRET = "directline-secret";
+
+// Helper function to send one Direct Line request, with a credential when given
+const call = (method: string, path: string, credential?: string, body?: any): Promise<DirectLineResponse> => {
+  const request: DirectLineRequest = {
+    method,
+    path,
+    headers: credential ? { authorization: `Bearer ${credential}` } : {},
+    query: {},
+    body,
+  };
+  const [, watermark] = path.split("?watermark=");
+  if (watermark !== undefined) {
+    request.query.watermark = watermark;
+  }
+  return handleDirectLineRequest(runTeamsAppWithTurnContext, request);
+};
+
+// Helper function to run a check a while after now, to let tokens expire
+const later = async <T>(seconds: number, run: () => Promise<T>): Promise<T> => {
+  const now = Date.now;
+  const shifted = now() + seconds * 1000;
+  Date.now = () => shifted;
+  try {
+    return await run();
+  } finally {
+    Date.now = now;
+  }
+};
+
+// Helper function to start a conversation with the secret, the way a script would
+const startConversation = async () => {
+  const started = await call("POST", "/conversations", SECRET);
+  assert.equal(started.status, 201);
+  return started.body;
+};
+
+const setUp = async () => {
+  await clearStore();
+  setProactiveSender(createDirectLineSender());
+};
+
+const checkWithSecret = (run: () => Promise<void>) => async () => {
+  await setUp();
+  await withEnv({ DIRECTLINE_SECRET: SECRET, LOCAL_DEV: undefined }, run);
+};
+
+export default {
+  "a token is generated with the secret, and starts its conversation once": checkWithSecret(async () => {
+    assert.equal((await call("POST", "/tokens/generate")).status, 403);
+    assert.equal((await call("POST", "/tokens/generate", "guess")).status, 403);
+    assert.equal((await call("POST", "/tokens/generate", "directline-secreT")).status, 403);
+
+    const generated = await call("POST", "/tokens/generate", SECRET);
+    assert.equal(generated.status, 200);
+    assert.equal(generated.body.expires_in, 1800);
+    const { conversationId, token } = generated.body;
+
+    const started = await call("POST", "/conversations", token);
+    assert.equal(started.status, 201);
+    assert.equal(started.body.conversationId, conversationId);
+    const again = await call("POST", "/conversations", token);
+    assert.equal(again.status, 200);
+    assert.equal(again.body.conversationId, conversationId);
+  }),
+
+  "a refreshed token replaces the old one": checkWithSecret(async () => {
+    const { conversationId, token } = (await call("POST", "/tokens/generate", SECRET)).body;
+    const refreshed = await call("POST", "/tokens/refresh", token);
+    assert.equal(refreshed.status, 200);
+    assert.equal(refreshed.body.conversationId, conversationId);
+    assert.notEqual(refreshed.body.token, token);
+
+    assert.equal((await call("GET", `/conversations/${conversationId}`, refreshed.body.token)).status, 200);
+    assert.deepEqual((await call("GET", `/conversations/${conversationId}`, token)).body, {
+      error: { code: "BadArgument", message: "Token not valid for this conversation" },
+    });
+    assert.equal((await call("POST", "/tokens/refresh", token)).status, 403);
+  }),
+
+  "a conversation is removed once its token expires": checkWithSecret(async () => {
+    const { conversationId, token } = (await call("POST", "/tokens/generate", SECRET)).body;
+    await later(1801, async () => {
+      assert.deepEqual((await call("POST", "/conversations", token)).body, {
+        error: { code: "BadArgument", message: "Secret or token not valid" },
+      });
+      assert.deepEqual((await call("POST", "/tokens/refresh", token)).body, {
+        error: { code: "TokenExpired", message: "Token not valid or expired" },
+      });
+      // Not even the secret reaches it any more
+      const gone = { status: 404, body: { error: { code: "BadArgument", message: "Conversation not found" } } };
+      assert.deepEqual(await call("GET", `/conversations/${conversationId}/activities`, token), gone);
+      assert.deepEqual(await call("GET", `/conversations/${conversationId}`, SECRET), gone);
+    });
+  }),
+
+  "refreshing the token keeps the conversation": checkWithSecret(async () => {
+    const { conversationId, token } = await startConversation();
+    const refreshed = await later(1000, async () => (await call("POST", "/tokens/refresh", token)).body.token);
+    await later(1801, async () => {
+      assert.equal((await call("GET", `/conversations/${conversationId}/activities`, refreshed)).status, 200);
+      assert.equal((await call("GET", `/conversations/${conversationId}/activities`, token)).status, 403);
+    });
+  }),
+
+  "activities are paged by watermark": checkWithSecret(async () => {
+    const { conversationId, token } = await startConversation();
+    const activities = `/conversations/${conversationId}/activities`;
+    const posted = await call("POST", activities, token, { type: "message", text: "hi", from: { name: "Ann" } });
+    assert.deepEqual(posted, { status: 200, body: { id: `${conversationId}|0000000` } });
+
+    const all = (await call("GET", activities, token)).body;
+    assert.equal(all.activities.length, 2);
+    assert.equal(all.watermark, "2");
+    assert.equal(all.activities[0].text, "hi");
+    assert.equal(all.activities[1].from.id, "hoogah-bot");
+    assert.equal(all.activities[1].replyToId, `${conversationId}|0000000`);
+    assert.equal(all.activities[1].attachments[0].contentType, "application/vnd.microsoft.card.adaptive");
+
+    assert.deepEqual((await call("GET", `${activities}?watermark=2`, token)).body, { activities: [], watermark: "2" });
+    await call("POST", activities, token, { type: "message", text: "/help" });
+    const next = (await call("GET", `${activities}?watermark=2`, token)).body;
+    assert.deepEqual(
+      next.activities.map((activity: any) => activity.id),
+      [`${conversationId}|0000002`, `${conversationId}|0000003`]
+    );
+    assert.equal(next.watermark, "4");
+  }),
+
+  "unknown conversations and bad credentials are refused": checkWithSecret(async () => {
+    const { conversationId, token } = await startConversation();
+    const other = await startConversation();
+    assert.deepEqual((await call("GET", "/conversations/nope/activities", token)).body, {
+      error: { code: "BadArgument", message: "Conversation not found" },
+    });
+    assert.equal((await call("GET", "/conversations/nope/activities", token)).status, 404);
+    assert.equal((await call("GET", `/conversations/${conversationId}/activities`, other.token)).status, 403);
+    assert.equal((await call("GET", `/conversations/${conversationId}/activities`)).status, 403);
+    assert.equal((await call("GET", `/conversations/${conversationId}/activities`, `${SECRET}x`)).status, 403);
+    assert.equal((await call("GET", `/conversations/${conversationId}/activities`, SECRET)).status, 200);
+    assert.deepEqual((await call("POST", "/conversations", "guess")).body, {
+      error: { code: "BadArgument", message: "Secret or token not valid" },
+    });
+    assert.equal((await call("POST", `/conversations/${conversationId}/activities`, token, { text: "hi" })).status, 400);
+  }),
+
+  "the sender is assigned by the server, not the client": checkWithSecret(async () => {
+    await withEnv({ ADMIN_IDS: "real-admin-aad" }, async () => {
+      const { conversationId, token } = await startConversation();
+      const activities = `/conversations/${conversationId}/activities`;
+      await call("POST", activities, token, {
+        type: "message",
+        text: "/runtime",
+        from: { id: "29:someone-else", name: "Mallory", aadObjectId: "real-admin-aad" },
+      });
+      const [incoming, reply] = (await call("GET", activities, token)).body.activities;
+      assert.deepEqual(incoming.from, { id: `dl_${conversationId}`, name: "Mallory", role: "user" });
+      assert.equal(reply.text, "Only admins can use /runtime.");
+    });
+  }),
+
+  "without a secret only local development starts conversations": async () => {
+    await setUp();
+    await withEnv({ DIRECTLINE_SECRET: undefined, LOCAL_DEV: undefined }, async () => {
+      assert.equal((await call("POST", "/tokens/generate")).status, 403);
+      assert.equal((await call("POST", "/conversations")).status, 403);
+    });
+    await withEnv({ DIRECTLINE_SECRET: undefined, LOCAL_DEV: "true" }, async () => {
+      assert.equal((await call("POST", "/tokens/generate")).status, 200);
+      assert.equal((await call("POST", "/conversations")).status, 201);
+    });
+  },
+};
@@ -0,0 +1,61 @@
+// The "file" storage backend (src/storage/fileStore.ts): state surviving into a new store, missing and corrupt
+// files, and turns reading and writing at the same time
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { FileStore } from "../../src/storage";
+
+// Helper function to run a check with the path of a state file in a fresh directory, removed afterwards
+const withStateFile = (run: (filePath: string) => Promise<void>) => async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "hoogah-store-"));
+  try {
+    await run(path.join(directory, "state", "hoogah.json"));
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+};
+
+export default {
+  "state survives into a new store": withStateFile(async (filePath) => {
+    const store = new FileStore(filePath);
+    await store.set("user:ann", { name: "Ann", answers: { goal: "Networking" } });
+    await store.set("user:bob", { name: "Bob" });
+    await store.delete("user:bob");
+
+    const reopened = new FileStore(filePath);
+    assert.deepEqual(await reopened.get("user:ann"), { name: "Ann", answers: { goal: "Networking" } });
+    assert.deepEqual(await reopened.keys("user:"), ["user:ann"]);
+    assert.equal(fs.existsSync(`${filePath}.tmp`), false);
+  }),
+
+  "a missing file is an empty store": withStateFile(async (filePath) => {
+    const store = new FileStore(filePath);
+    assert.equal(await store.get("user:ann"), undefined);
+    assert.deepEqual(await store.keys(), []);
+  }),
+
+  "a corrupt file is an error until it is fixed": withStateFile(async (filePath) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, "{ not json");
+    const store = new FileStore(filePath);
+    await assert.rejects(store.get("user:ann"), /Could not read state file .*hoogah\.json/);
+    await assert.rejects(store.set("user:ann", {}), /Could not read state file/);
+
+    fs.writeFileSync(filePath, JSON.stringify({ "user:ann": { name: "Ann" } }));
+    assert.deepEqual(await store.get("user:ann"), { name: "Ann" });
+  }),
+
+  "reads and writes at the same time lose nothing": withStateFile(async (filePath) => {
+    const store = new FileStore(filePath);
+    // Both calls start before the file was read; the write must not be replaced by the other call's read
+    const [, value] = await Promise.all([store.set("x", 1), store.get("x")]);
+    assert.ok(value === undefined || value === 1);
+    assert.equal(await store.get("x"), 1);
+
+    await Promise.all(Array.from({ length: 20 }, (_, index) => store.set(`key:${index}`, index)));
+    const reopened = new FileStore(filePath);
+    assert.equal((await reopened.keys("key:")).length, 20);
+    assert.equal(await reopened.get("x"), 1);
+  }),
+};
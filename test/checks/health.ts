@@ -0,0 +1,93 @@
+// Readiness (src/health.ts and api/health.ts): a 503 with the reason for bad settings, failing storage and missing
+// handlers, and the state counts a ready bot reports
+import assert from "node:assert/strict";
+import healthHandler from "../../api/health";
+import { createDispatcher } from "../../src/dispatcher";
+import { createEvent, saveEvent } from "../../src/events";
+import { checkReadiness, getHealthStatus } from "../../src/health";
+import { storage } from "../../src/pipeline";
+import { getParticipant, saveParticipant, saveUserState } from "../../src/state";
+import { clearStore, withEnv } from "../support";
+
+const CREDENTIALS = { CLIENT_ID: "bot-id", CLIENT_SECRET: "bot-secret", TENANT_ID: undefined, BOT_TYPE: undefined };
+
+// Helper function to call the Vercel /api/health function with a fake response
+const callHealthFunction = async () => {
+  const res: any = {};
+  res.status = (code: number) => ((res.statusCode = code), res);
+  res.json = (body: any) => ((res.body = body), res);
+  await healthHandler({} as any, res);
+  return res;
+};
+
+// Helper function to add people to an event, each with their own conversation
+const join = async (eventId: string, names: string[]) => {
+  for (const name of names) {
+    const conversationId = `conversation-${name.toLowerCase()}`;
+    await saveUserState(storage, conversationId, { name, eventId });
+    await saveParticipant(storage, await getParticipant(storage, eventId, conversationId));
+  }
+};
+
+export default {
+  "missing credentials are a 503 naming them": () =>
+    withEnv({ ...CREDENTIALS, CLIENT_ID: undefined, CLIENT_SECRET: undefined }, async () => {
+      const { statusCode, body } = await callHealthFunction();
+      assert.equal(statusCode, 503);
+      assert.equal(body.status, "not ready");
+      assert.deepEqual(body.checks.config.problems, [
+        "CLIENT_ID is required for MultiTenant auth",
+        "CLIENT_SECRET is required for MultiTenant auth",
+      ]);
+      assert.deepEqual(body.checks.storage, { ok: true });
+      assert.deepEqual(body.checks.router, { ok: true });
+    }),
+
+  "failing storage is a 503 without counts": () =>
+    withEnv(CREDENTIALS, async () => {
+      const set = storage.set;
+      storage.set = async () => {
+        throw new Error("disk full");
+      };
+      try {
+        const { statusCode, body } = await callHealthFunction();
+        assert.equal(statusCode, 503);
+        assert.deepEqual(body.checks.config, { ok: true });
+        assert.deepEqual(body.checks.storage, { ok: false, problems: ["storage failed: disk full"] });
+        assert.equal(body.counts, undefined);
+      } finally {
+        storage.set = set;
+      }
+    }),
+
+  "a missing handler is a 503 naming it": async () => {
+    const dispatcher = createDispatcher();
+    dispatcher.on("message", async () => undefined);
+    const report = await checkReadiness(storage, dispatcher);
+    assert.equal(getHealthStatus(report), 503);
+    assert.deepEqual(report.checks.router, { ok: false, problems: ["no invoke handler registered"] });
+    assert.deepEqual((await checkReadiness(storage, createDispatcher())).checks.router.problems, [
+      "no message handler registered",
+      "no invoke handler registered",
+    ]);
+  },
+
+  "a ready bot counts its conversations and the participants of open events": () =>
+    withEnv(CREDENTIALS, async () => {
+      await clearStore();
+      const open = await createEvent(storage, "Spring", "SPRING");
+      const closed = await createEvent(storage, "Winter", "WINTER");
+      closed.status = "closed";
+      await saveEvent(storage, closed);
+      await join(open.id, ["Ann", "Bob"]);
+      await join(closed.id, ["Cy"]);
+      await saveUserState(storage, "conversation-dan", { name: "Dan" });
+
+      const { statusCode, body } = await callHealthFunction();
+      assert.equal(statusCode, 200);
+      assert.equal(body.status, "ready");
+      assert.deepEqual(body.counts, { conversations: 4, participants: 2 });
+      // The throwaway key of the storage check is gone again
+      assert.deepEqual(await storage.keys("health/"), []);
+    }),
+};
@@ -0,0 +1,22 @@
+// The counters at /api/metrics (src/metrics.ts): activity types a client makes up share one series
+import assert from "node:assert/strict";
+import { renderMetrics, resetMetrics } from "../../src/metrics";
+import { processActivity } from "../../src/pipeline";
+
+const ignore = async () => undefined;
+
+export default {
+  "activity types outside the known ones count as other": async () => {
+    resetMetrics();
+    for (const type of ["typing", "made-up-type", "constructor", "made-up-type"]) {
+      await processActivity({ type, conversation: { id: "conversation-metrics" } }, ignore);
+    }
+    await processActivity({ conversation: { id: "conversation-metrics" } }, ignore);
+
+    const metrics = renderMetrics();
+    assert.match(metrics, /^hoogah_activities_total\{type="typing"\} 1$/m);
+    assert.match(metrics, /^hoogah_activities_total\{type="other"\} 3$/m);
+    assert.match(metrics, /^hoogah_activities_total\{type="unknown"\} 1$/m);
+    assert.doesNotMatch(metrics, /made-up-type|constructor/);
+  },
+};
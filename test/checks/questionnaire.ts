@@ -0,0 +1,109 @@
+// Questionnaire files (src/questionnaire.ts): what validateQuestionnaire rejects, loading QUESTIONNAIRE_FILE and the
+// questionnaires in QUESTIONNAIRE_DIR organizers can pick per event
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { listQuestionnaires, loadQuestionnaire, validateQuestionnaire } from "../../src/questionnaire";
+import { withEnv } from "../support";
+
+const question = (id: string, extra: Record<string, any> = {}) => ({
+  id,
+  text: `Question ${id}?`,
+  weight: 1,
+  options: ["Yes", "No"],
+  ...extra,
+});
+
+// Helper function to run a check with questionnaire files written to a fresh directory, removed afterwards
+const withFiles = (files: Record<string, any>, run: (directory: string) => Promise<void> | void) => async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "hoogah-questionnaires-"));
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(directory, name), typeof content === "string" ? content : JSON.stringify(content));
+    }
+    await run(directory);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+};
+
+export default {
+  "the bundled default is valid": () => {
+    const questionnaire = loadQuestionnaire();
+    assert.equal(questionnaire.id, "default");
+    assert.deepEqual(validateQuestionnaire(questionnaire), []);
+  },
+
+  "broken definitions are rejected with every problem": () => {
+    assert.deepEqual(validateQuestionnaire(null), ["questionnaire must be an object"]);
+    assert.deepEqual(validateQuestionnaire({ id: "", minScore: "2" }), [
+      "questionnaire.id must be a non-empty string",
+      "questionnaire.minScore must be a number",
+      "questionnaire.questions must be a non-empty array",
+    ]);
+    const definition = {
+      id: "broken",
+      questions: [
+        question("q1"),
+        question("q1"),
+        { id: "", text: "", weight: -1, options: ["Only one"] },
+        question("q4", { translations: { de: { text: "", options: ["Ja"] } } }),
+      ],
+    };
+    assert.deepEqual(validateQuestionnaire(definition), [
+      'questions[1].id "q1" is used more than once',
+      "questions[2].id must be a non-empty string",
+      "questions[2].text must be a non-empty string",
+      "questions[2].weight must be a non-negative number",
+      "questions[2].options must list at least two non-empty strings",
+      "questions[3].translations.de.text must be a non-empty string",
+      "questions[3].translations.de.options must translate every option, in order",
+    ]);
+  },
+
+  "QUESTIONNAIRE_FILE replaces the default": withFiles(
+    { "offsite.json": { id: "offsite", questions: [question("snack"), question("pace")] } },
+    (directory) =>
+      withEnv({ QUESTIONNAIRE_FILE: path.join(directory, "offsite.json") }, () => {
+        const questionnaire = loadQuestionnaire();
+        assert.equal(questionnaire.id, "offsite");
+        assert.deepEqual(
+          questionnaire.questions.map((q) => q.id),
+          ["snack", "pace"]
+        );
+      })
+  ),
+
+  "an invalid QUESTIONNAIRE_FILE names the file and its problems": withFiles(
+    { "broken.json": { id: "broken", questions: [question("q1", { weight: "high" })] }, "syntax.json": "{ nope" },
+    (directory) => {
+      const file = path.join(directory, "broken.json");
+      assert.throws(
+        () => loadQuestionnaire(file),
+        (err: any) =>
+          err.message === `Invalid questionnaire in ${file}:\n  - questions[0].weight must be a non-negative number`
+      );
+      assert.throws(() => loadQuestionnaire(path.join(directory, "syntax.json")), SyntaxError);
+      assert.throws(() => loadQuestionnaire(path.join(directory, "missing.json")), /ENOENT/);
+    }
+  ),
+
+  "organizers can pick the questionnaires in QUESTIONNAIRE_DIR": withFiles(
+    {
+      "b-offsite.json": { id: "offsite", questions: [question("snack")] },
+      "a-workshop.json": { id: "workshop", questions: [question("topic"), question("level")] },
+      "notes.txt": "not a questionnaire",
+    },
+    (directory) => {
+      assert.deepEqual(
+        listQuestionnaires(directory).map((questionnaire) => questionnaire.id),
+        ["default", "workshop", "offsite"]
+      );
+      assert.deepEqual(
+        listQuestionnaires().map((questionnaire) => questionnaire.id),
+        ["default"]
+      );
+    }
+  ),
+};
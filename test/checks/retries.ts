@@ -0,0 +1,33 @@
+// Channel retries (src/bot.ts): an activity is handled once, unless handling it failed and the channel sends it again
+import assert from "node:assert/strict";
+import { processActivity } from "../../src/pipeline";
+import { clearStore } from "../support";
+
+const HI = {
+  type: "message",
+  id: "retry-1",
+  channelId: "msteams",
+  text: "hi",
+  from: { id: "29:dana", name: "Dana", aadObjectId: "aad-dana" },
+  recipient: { id: "28:hoogah-bot", name: "Hoogah" },
+  conversation: { id: "conversation-dana", conversationType: "personal" },
+};
+
+export default {
+  "a retry of a message whose reply failed is handled again": async () => {
+    await clearStore();
+    const failing = async () => {
+      throw new Error("Teams is unavailable");
+    };
+    await assert.rejects(processActivity(HI, failing), /Teams is unavailable/);
+
+    const sent: any[] = [];
+    await processActivity(HI, async (activity) => sent.push(activity));
+    assert.equal(sent.length, 1);
+    assert.equal(sent[0].attachments[0].contentType, "application/vnd.microsoft.card.adaptive");
+
+    // Once handled, the same activity is a duplicate
+    await processActivity(HI, async (activity) => sent.push(activity));
+    assert.equal(sent.length, 1);
+  },
+};
@@ -0,0 +1,124 @@
+// The /chat simulator (src/simulator.ts): a conversation and history per simulated user, invokes answered with the
+// updated card, match notifications added to the partner's history, and nothing that claims someone else's rights
+import assert from "node:assert/strict";
+import chatHandler from "../../api/chat";
+import { setProactiveSender } from "../../src/notifier";
+import { runTeamsAppWithTurnContext } from "../../src/pipeline";
+import {
+  createSimulatorSender,
+  getSimulatorHistory,
+  handleSimulatorRequest,
+  SimulatorRequest,
+} from "../../src/simulator";
+import { clearStore, getActionData, getCardText, withEnv } from "../support";
+
+// Helper function to send one simulator request, as POST /chat does
+const send = (request: SimulatorRequest) => handleSimulatorRequest(runTeamsAppWithTurnContext, request);
+
+const getCard = (activity: any) => activity?.attachments?.[0]?.content;
+
+// Helper function to take a simulated user from the welcome card through confirming their answers by clicking buttons
+const answerQuestionnaire = async (userId: string, userName: string, options: string[]) => {
+  await send({ userId, userName, text: "hi" });
+  let { invokeResponse } = await send({ userId, userName, type: "invoke", value: { type: "join", joinCode: "HOOGAH" } });
+  for (const title of [...options, "Confirm and find my pair"]) {
+    const value = getActionData(invokeResponse.value, title);
+    ({ invokeResponse } = await send({ userId, userName, type: "invoke", value }));
+  }
+  return invokeResponse.value;
+};
+
+// Helper function to call the Vercel /chat function with a fake request and response
+const callChatFunction = async (req: any) => {
+  const res: any = { statusCode: 200 };
+  res.status = (code: number) => ((res.statusCode = code), res);
+  res.json = (body: any) => ((res.body = body), res);
+  await chatHandler(req, res);
+  return res;
+};
+
+const setUp = async () => {
+  await clearStore();
+  setProactiveSender(createSimulatorSender());
+};
+
+export default {
+  "each simulated user gets their own conversation and history": async () => {
+    await setUp();
+    const ann = await send({ userId: "sim-ann", userName: "Ann", text: "hi" });
+    assert.equal(ann.conversationId, "conversation-sim-ann");
+    assert.match(getCardText(getCard(ann.messages[0])), /Hi Ann!/);
+    const bob = await send({ userId: "sim-bob", userName: "Bob", text: "hi" });
+    assert.equal(bob.conversationId, "conversation-sim-bob");
+
+    const history = getSimulatorHistory("conversation-sim-ann");
+    assert.deepEqual(
+      history.map((entry) => entry.direction),
+      ["incoming", "outgoing"]
+    );
+    assert.equal(history[0].activity.text, "hi");
+    assert.equal(history[0].activity.from.name, "Ann");
+    assert.deepEqual(ann.history, history);
+  },
+
+  "an invoke is answered with the updated card": async () => {
+    await setUp();
+    await send({ userId: "sim-ann", text: "hi" });
+    const joined = await send({ userId: "sim-ann", type: "invoke", value: { type: "join", joinCode: "HOOGAH" } });
+    assert.deepEqual(joined.messages, []);
+    assert.equal(joined.invokeResponse.type, "application/vnd.microsoft.card.adaptive");
+    assert.match(getCardText(joined.invokeResponse.value), /Question 1/);
+
+    // A full invoke value (as Teams sends it) works as well as just the clicked action's data
+    const data = getActionData(joined.invokeResponse.value, "Networking");
+    const answered = await send({
+      userId: "sim-ann",
+      type: "invoke",
+      value: { action: { type: "Action.Execute", verb: data.type, data } },
+    });
+    assert.match(getCardText(answered.invokeResponse.value), /Question 2/);
+
+    const entry = answered.history[answered.history.length - 1];
+    assert.equal(entry.direction, "outgoing");
+    assert.equal(entry.activity.type, "invokeResponse");
+  },
+
+  "a match notification lands in the partner's history": async () => {
+    await setUp();
+    const waiting = await answerQuestionnaire("sim-ann", "Ann", ["Networking", "Direct", "Beginner"]);
+    assert.match(getCardText(waiting), /Waiting for a match/);
+    const matched = await answerQuestionnaire("sim-bob", "Bob", ["Networking", "Casual", "Expert"]);
+    assert.match(getCardText(matched), /paired with: Ann/);
+
+    const notification = getSimulatorHistory("conversation-sim-ann").find((entry) => entry.proactive);
+    assert.ok(notification, "Ann's history has no match notification");
+    assert.match(getCardText(getCard(notification.activity)), /paired with: Bob/);
+    // Simulated users carry a namespaced AAD object id, never one a real Teams user could have
+    assert.match(getCard(notification.activity).actions[0].url, /users=8%3Aorgid%3Asim%3Asim-bob$/);
+  },
+
+  "simulated users can't claim an organizer's AAD object id": async () => {
+    await setUp();
+    await withEnv({ ORGANIZER_IDS: "real-organizer-aad" }, async () => {
+      const { messages } = await send({ userId: "real-organizer-aad", text: "/event reset" });
+      assert.equal(messages[0].text, "Only organizers can use /event.");
+    });
+    await withEnv({ ORGANIZER_IDS: "sim:olga" }, async () => {
+      const { messages } = await send({ userId: "olga", text: "/event list" });
+      assert.match(getCardText(getCard(messages[0])), /Events/);
+    });
+  },
+
+  "the /chat function only answers with LOCAL_DEV": async () => {
+    await setUp();
+    const request = { method: "POST", body: { userId: "sim-ann", text: "hi" }, query: {} };
+    await withEnv({ LOCAL_DEV: undefined }, async () => {
+      assert.equal((await callChatFunction(request)).statusCode, 404);
+    });
+    await withEnv({ LOCAL_DEV: "true" }, async () => {
+      const res = await callChatFunction(request);
+      assert.equal(res.statusCode, 200);
+      assert.equal(res.body.conversationId, "conversation-sim-ann");
+    });
+  },
+};
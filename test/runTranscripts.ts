@@ -0,0 +1,414 @@
+// Replays conversation transcripts (test/transcripts/*.json) through runTeamsAppWithTurnContext
+// with a fake TurnContext, and checks the activities the bot sends back. No Bot Framework
+// connectivity is needed: replies, invoke responses and proactive messages are all captured here.
+//
+// A transcript lists the users taking part and the activities they send, in order:
+//
+// {
+//   "description": "...",
+//   "users": { "ann": { "name": "Ann" } },  (a user may add "locale": "de-DE" for their activities)
+//   "organizers": ["ann"],                  (optional: users listed in ORGANIZER_IDS)
+//   "env": { "NO_REPEAT_ROUNDS": "0" },     (optional: settings for this transcript only)
+//   "activities": [
+//     { "from": "ann", "text": "hi", "expect": [{ "card": { "contains": ["Welcome to Hoogah"] } }] },
+//     { "from": "ann", "click": "Hoogah", "expect": [{ "type": "invokeResponse", "card": { "contains": ["Question 1"] } }] }
+//   ]
+// }
+//
+// Each incoming activity is one of:
+//   "text": "hi"                         a typed message
+//   "click": "Title"                     press a button on the user's latest card ("card": 2 for the one before,
+//                                        "inputs": {...} to fill in card inputs first)
+//   "submit": {...}                      a message carrying raw card data (Action.Submit)
+//   "invoke": { "verb": "...", "data": {...} }   a raw adaptiveCard/action invoke
+//   "retry": true                        the user's previous activity again, with the same id (a channel retry)
+//   "install": true / "uninstall": true  the user installs or removes the bot in their personal chat
+//   "joinTeam": "Team"                   the user is added to a team the bot is in
+//
+// "in": "Team" sends a text, submit or invoke in that team's channel instead of the user's personal chat.
+// Every user of the transcript is a member of every team.
+//
+// A step with "at": "2026-01-05T09:00:00Z" (and no "from") moves the clock to that time and runs the scheduler
+// (scheduled rounds and feedback requests); the clock starts at the transcript's "now" (default Monday
+// 2026-01-05 08:00 UTC).
+//
+// A step with "metrics": ['hoogah_funnel_total{step="matched"} 2'] (and no "from") checks that /api/metrics reports
+// those lines. Counters start at zero with every transcript.
+//
+// "expect" lists every activity the bot sends during that turn, in order. Each entry may check:
+//   "to"        user whose conversation receives it, or "team-<Team>" for a team channel (defaults to
+//               the sender, or the channel for activities sent "in" one)
+//   "type"      "message" (default) or "invokeResponse"
+//   "text"      text a plain message contains
+//   "message"   text of an invoke response that shows a message instead of a card
+//   "card"      { "contains": [...], "notContains": [...], "actions": [...] } - texts on the card
+//               and the exact titles of its buttons
+//   "proactive" true when it must be sent outside of the turn (e.g. a match notification)
+//
+// Parts that aren't conversations (config validation, questionnaire files, the file store, the local channels, card
+// templates) are covered by checks in test/checks/*.ts instead: each module's default export maps a check's name to a
+// function that throws when it fails. They run after the transcripts, against the same in-memory store.
+
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+
+// Start from a clean, in-memory configuration before the app is loaded
+process.env.STORAGE_BACKEND = "memory";
+delete process.env.STORAGE_FILE;
+delete process.env.QUESTIONNAIRE_FILE;
+delete process.env.ORGANIZER_IDS;
+delete process.env.ADMIN_IDS;
+
+const { runTeamsAppWithTurnContext, scheduler, storage }: typeof import("../src/pipeline") = require("../src/pipeline");
+const { setProactiveSender }: typeof import("../src/notifier") = require("../src/notifier");
+const { resetConfig }: typeof import("../src/config") = require("../src/config");
+const { setClock }: typeof import("../src/clock") = require("../src/clock");
+const { renderMetrics, resetMetrics }: typeof import("../src/metrics") = require("../src/metrics");
+const { findActions, getCardTexts }: typeof import("./support") = require("./support");
+
+interface CardExpectation {
+  contains?: string[];
+  notContains?: string[];
+  actions?: string[];
+}
+
+interface OutgoingExpectation {
+  to?: string;
+  type?: "message" | "invokeResponse";
+  text?: string;
+  message?: string;
+  card?: CardExpectation;
+  proactive?: boolean;
+}
+
+interface TranscriptActivity {
+  from?: string;
+  text?: string;
+  click?: string;
+  card?: number;
+  inputs?: Record<string, string>;
+  submit?: any;
+  invoke?: { verb: string; data?: any };
+  retry?: boolean;
+  install?: boolean;
+  uninstall?: boolean;
+  joinTeam?: string;
+  in?: string;
+  at?: string;
+  metrics?: string[];
+  expect?: OutgoingExpectation[];
+}
+
+interface Transcript {
+  description?: string;
+  users: Record<string, { name: string; locale?: string }>;
+  organizers?: string[];
+  now?: string;
+  env?: Record<string, string>;
+  activities: TranscriptActivity[];
+}
+
+// An activity the bot sent, with the user whose conversation it went to
+interface Outgoing {
+  to: string;
+  proactive: boolean;
+  activity: any;
+}
+
+const TRANSCRIPT_DIR = path.join(__dirname, "transcripts");
+const CHECK_DIR = path.join(__dirname, "checks");
+
+// Time the clock starts at, unless a transcript sets "now" (a Monday, 08:00 UTC)
+const DEFAULT_NOW = "2026-01-05T08:00:00Z";
+
+const conversationIdOf = (user: string) => `conversation-${user}`;
+
+const teamConversationIdOf = (team: string) => `team-${team}`;
+
+// Teams account of a transcript user, as it appears in activities and rosters
+const accountOf = (user: string, name: string) => ({
+  id: `29:${user}`,
+  name,
+  aadObjectId: `aad-${user}`,
+  userPrincipalName: `${user}@example.com`,
+});
+
+// Helper function to get the adaptive card an outgoing activity carries, if any
+const getCard = (activity: any): any => {
+  if (activity.type === "invokeResponse") {
+    const body = activity.value?.body;
+    return body?.type === "application/vnd.microsoft.card.adaptive" ? body.value : undefined;
+  }
+  return activity.attachments?.find((a: any) => a.contentType === "application/vnd.microsoft.card.adaptive")?.content;
+};
+
+const checkCard = (card: any, expected: CardExpectation, where: string) => {
+  assert.ok(card, `${where}: expected a card`);
+  const texts = getCardTexts(card);
+  for (const text of expected.contains || []) {
+    assert.ok(
+      texts.some((t) => t.includes(text)),
+      `${where}: card does not contain "${text}"\n    card texts: ${JSON.stringify(texts)}`
+    );
+  }
+  for (const text of expected.notContains || []) {
+    assert.ok(!texts.some((t) => t.includes(text)), `${where}: card should not contain "${text}"`);
+  }
+  if (expected.actions) {
+    assert.deepEqual(
+      findActions(card).map((action) => action.title),
+      expected.actions,
+      `${where}: unexpected card actions`
+    );
+  }
+};
+
+const checkOutgoing = (outgoing: Outgoing, expected: OutgoingExpectation, replyTo: string, where: string) => {
+  const { activity } = outgoing;
+  assert.equal(outgoing.to, expected.to || replyTo, `${where}: sent to the wrong conversation`);
+  assert.equal(activity.type, expected.type || "message", `${where}: unexpected activity type`);
+  if (expected.proactive !== undefined) {
+    assert.equal(outgoing.proactive, expected.proactive, `${where}: proactive`);
+  }
+  if (expected.text !== undefined) {
+    assert.ok(
+      typeof activity.text === "string" && activity.text.includes(expected.text),
+      `${where}: expected text containing "${expected.text}", got ${JSON.stringify(activity.text)}`
+    );
+  }
+  if (expected.message !== undefined) {
+    assert.equal(activity.value?.body?.value, expected.message, `${where}: unexpected invoke message`);
+  }
+  if (expected.card) {
+    checkCard(getCard(activity), expected.card, where);
+  }
+};
+
+// Environment values replaced by the transcript that ran last, to restore before the next one
+let previousEnv: Record<string, string | undefined> = {};
+
+// Replays one transcript against an empty store; throws on the first failed expectation
+const replay = async (name: string, transcript: Transcript) => {
+  for (const key of await storage.keys()) {
+    await storage.delete(key);
+  }
+  let now = new Date(transcript.now || DEFAULT_NOW);
+  setClock({ now: () => now });
+  // Settings of the previous transcript don't carry over
+  for (const [key, value] of Object.entries(previousEnv)) {
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = value;
+    }
+  }
+  previousEnv = {};
+  for (const [key, value] of Object.entries(transcript.env || {})) {
+    previousEnv[key] = process.env[key];
+    process.env[key] = value;
+  }
+  process.env.ORGANIZER_IDS = (transcript.organizers || []).map((user) => accountOf(user, "").aadObjectId).join(",");
+  resetConfig();
+  resetMetrics();
+
+  let outgoing: Outgoing[] = [];
+  const cards: Record<string, any[]> = {};
+  const lastActivity: Record<string, any> = {};
+  const record = (to: string, activity: any, proactive: boolean) => {
+    outgoing.push({ to, activity, proactive });
+    const card = getCard(activity);
+    if (card) {
+      (cards[to] = cards[to] || []).push(card);
+    }
+  };
+  const userOfConversation = (conversationId: string) =>
+    Object.keys(transcript.users).find((user) => conversationIdOf(user) === conversationId) || conversationId;
+
+  setProactiveSender({
+    send: async (reference, activity) => {
+      record(userOfConversation(reference.conversation.id), activity, true);
+    },
+    createPersonalConversation: async (reference, user) => ({
+      ...reference,
+      user,
+      conversation: { id: conversationIdOf(String(user.id).replace(/^29:/, "")), conversationType: "personal" },
+    }),
+    listMembers: async () => Object.entries(transcript.users).map(([user, { name }]) => accountOf(user, name)),
+  });
+
+  // Sends one user activity through the bot; returns the conversation replies go to
+  const runStep = async (step: TranscriptActivity, id: string, where: string): Promise<string> => {
+    const user = transcript.users[step.from];
+    assert.ok(user, `${where}: unknown user "${step.from}"`);
+
+    let activity: any;
+    if (step.retry) {
+      activity = lastActivity[step.from];
+      assert.ok(activity, `${where}: nothing to retry`);
+    } else {
+      const from = accountOf(step.from, user.name);
+      activity = {
+        type: "message",
+        id,
+        channelId: "msteams",
+        serviceUrl: "https://smba.trafficmanager.net/test/",
+        from,
+        recipient: { id: "28:hoogah-bot", name: "Hoogah" },
+        conversation: { id: conversationIdOf(step.from), conversationType: "personal" },
+        locale: user.locale || "en-US",
+        ...(step.in !== undefined
+          ? { conversation: { id: teamConversationIdOf(step.in), conversationType: "channel", tenantId: "tenant" } }
+          : {}),
+        ...buildIncoming(step, cards[step.from] || [], from, where),
+      };
+    }
+    lastActivity[step.from] = activity;
+    const replyTo = step.in !== undefined ? teamConversationIdOf(step.in) : step.from;
+
+    const turnContext: any = {
+      activity,
+      sendActivity: async (reply: any) => {
+        record(replyTo, reply, false);
+        return { id: `reply-${outgoing.length}` };
+      },
+    };
+    await runTeamsAppWithTurnContext(turnContext);
+    return replyTo;
+  };
+
+  for (const [index, step] of transcript.activities.entries()) {
+    const where = `${name} #${index + 1}`;
+    outgoing = [];
+    let replyTo = "";
+    if (step.at !== undefined) {
+      now = new Date(step.at);
+      await scheduler.tick();
+    } else if (step.metrics !== undefined) {
+      const lines = renderMetrics().split("\n");
+      for (const line of step.metrics) {
+        assert.ok(lines.includes(line), `${where}: metrics lack "${line}"\n    ${lines.join("\n    ")}`);
+      }
+    } else {
+      replyTo = await runStep(step, `${name}-${index + 1}`, where);
+    }
+
+    const expected = step.expect || [];
+    assert.equal(
+      outgoing.length,
+      expected.length,
+      `${where}: expected ${expected.length} outgoing activities, got ${outgoing.length}\n    ${JSON.stringify(
+        outgoing.map((o) => ({ to: o.to, type: o.activity.type, texts: getCardTexts(getCard(o.activity)) }))
+      )}`
+    );
+    expected.forEach((expectation, i) => checkOutgoing(outgoing[i], expectation, replyTo, `${where} reply ${i + 1}`));
+  }
+};
+
+// Helper function to turn a transcript step into the fields of an incoming activity
+const buildIncoming = (step: TranscriptActivity, userCards: any[], from: any, where: string): any => {
+  if (step.text !== undefined) {
+    return { text: step.text };
+  }
+  if (step.submit !== undefined) {
+    return { value: step.submit };
+  }
+  if (step.install || step.uninstall) {
+    return { type: "installationUpdate", action: step.install ? "add" : "remove" };
+  }
+  if (step.joinTeam !== undefined) {
+    return {
+      type: "conversationUpdate",
+      conversation: { id: teamConversationIdOf(step.joinTeam), conversationType: "channel", tenantId: "tenant" },
+      membersAdded: [from],
+    };
+  }
+  if (step.invoke) {
+    return {
+      type: "invoke",
+      name: "adaptiveCard/action",
+      value: { action: { type: "Action.Execute", verb: step.invoke.verb, data: step.invoke.data || {} } },
+    };
+  }
+  if (step.click !== undefined) {
+    const card = userCards[userCards.length - (step.card || 1)];
+    assert.ok(card, `${where}: no card to click on`);
+    const action = findActions(card).find((a) => a.title === step.click);
+    assert.ok(action, `${where}: no "${step.click}" button on the card`);
+    // Like Teams, a button submits the card's inputs together with its own data
+    const data = { ...(step.inputs || {}), ...(action.data || {}) };
+    if (action.type === "Action.Execute") {
+      return {
+        type: "invoke",
+        name: "adaptiveCard/action",
+        value: { action: { type: "Action.Execute", verb: action.verb, data } },
+      };
+    }
+    return { value: data };
+  }
+  throw new Error(`${where}: a transcript activity needs text, click, submit, invoke, retry, install, uninstall or joinTeam`);
+};
+
+// Helper function to run a transcript or check with the bot's logs held back (it logs every turn);
+// resolves to the error it failed with, if any, and the logs written meanwhile
+const runQuietly = async (run: () => void | Promise<void>): Promise<{ error?: any; logs: string[] }> => {
+  const logs: string[] = [];
+  const capture = (...args: any[]) => logs.push(args.map((a) => (typeof a === "string" ? a : JSON.stringify(a))).join(" "));
+  const original = { log: console.log, warn: console.warn, error: console.error };
+  Object.assign(console, { log: capture, warn: capture, error: capture });
+  try {
+    await run();
+    return { logs };
+  } catch (error: any) {
+    return { error: error || new Error("failed"), logs };
+  } finally {
+    Object.assign(console, original);
+  }
+};
+
+const main = async () => {
+  const only = process.argv[2];
+  const files = fs
+    .readdirSync(TRANSCRIPT_DIR)
+    .filter((file) => file.endsWith(".json") && (!only || file.includes(only)))
+    .sort();
+  const checkFiles = fs
+    .readdirSync(CHECK_DIR)
+    .filter((file) => file.endsWith(".ts") && (!only || file.includes(only)))
+    .sort();
+
+  let passed = 0;
+  let failed = 0;
+  let checkCount = 0;
+  // Only the logs of failed transcripts and checks are shown, and only with TRANSCRIPT_LOGS set
+  const report = (name: string, description: string | undefined, { error, logs }: { error?: any; logs: string[] }) => {
+    if (!error) {
+      passed++;
+      console.log(`✔ ${name}${description ? ` - ${description}` : ""}`);
+      return;
+    }
+    failed++;
+    console.log(`✘ ${name}\n  ${error?.message || error}`);
+    if (process.env.TRANSCRIPT_LOGS) {
+      console.log(logs.map((line) => `    | ${line}`).join("\n"));
+    }
+  };
+
+  for (const file of files) {
+    const name = path.basename(file, ".json");
+    const transcript: Transcript = JSON.parse(fs.readFileSync(path.join(TRANSCRIPT_DIR, file), "utf8"));
+    report(name, transcript.description, await runQuietly(() => replay(name, transcript)));
+  }
+  for (const file of checkFiles) {
+    const checks: Record<string, () => void | Promise<void>> = require(path.join(CHECK_DIR, file)).default;
+    for (const [name, run] of Object.entries(checks)) {
+      checkCount++;
+      report(`${path.basename(file, ".ts")}: ${name}`, undefined, await runQuietly(run));
+    }
+  }
+
+  console.log(`\n${passed}/${passed + failed} passed (${files.length} transcripts, ${checkCount} checks)`);
+  process.exitCode = failed > 0 ? 1 : 0;
+};
+
+main();
@@ -0,0 +1,91 @@
+// Helpers shared by the checks in test/checks/*.ts and the transcript runner, which loads this file only after it set
+// up the environment (importing it loads the app)
+import { resetConfig } from "../src/config";
+import { storage } from "../src/pipeline";
+
+// Start a check from an empty store, like every transcript
+export const clearStore = async () => {
+  for (const key of await storage.keys()) {
+    await storage.delete(key);
+  }
+};
+
+// Run a check with some settings replaced, and put them back afterwards
+export const withEnv = async (env: Record<string, string | undefined>, run: () => void | Promise<void>) => {
+  const previous: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(env)) {
+    previous[key] = process.env[key];
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = value;
+    }
+  }
+  resetConfig();
+  try {
+    await run();
+  } finally {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+    resetConfig();
+  }
+};
+
+// Every action of a card, including those in action sets and columns
+export const findActions = (element: any, found: any[] = []): any[] => {
+  if (Array.isArray(element)) {
+    element.forEach((item) => findActions(item, found));
+  } else if (element && typeof element === "object") {
+    for (const [key, value] of Object.entries(element)) {
+      if (key === "actions" && Array.isArray(value)) {
+        found.push(...value);
+      } else if (key !== "refresh" && key !== "data") {
+        findActions(value, found);
+      }
+    }
+  }
+  return found;
+};
+
+// The data of the button with a title, which a click sends
+export const getActionData = (card: any, title: string): any => {
+  const action = findActions(card).find((a) => a.title === title);
+  if (!action) {
+    throw new Error(`No "${title}" button on the card: ${JSON.stringify(findActions(card).map((a) => a.title))}`);
+  }
+  return { ...action.data, type: action.verb || action.data?.type };
+};
+
+// The visible texts of a card: its text blocks, and facts as "title: value"
+export const getCardTexts = (card: any): string[] => {
+  const texts: string[] = [];
+  const collect = (element: any) => {
+    if (Array.isArray(element)) {
+      element.forEach(collect);
+    } else if (element && typeof element === "object") {
+      if (element.type === "TextBlock" && typeof element.text === "string") {
+        texts.push(element.text);
+      }
+      if (element.type === "FactSet") {
+        for (const fact of element.facts || []) {
+          texts.push(`${fact.title}: ${fact.value}`);
+        }
+      }
+      for (const [key, value] of Object.entries(element)) {
+        if (key !== "actions" && key !== "refresh") {
+          collect(value);
+        }
+      }
+    }
+  };
+  collect(card?.body);
+  return texts;
+};
+
+// The visible texts of a card, joined for matching
+export const getCardText = (card: any): string => getCardTexts(card).join("\n");